@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "polar_subscription" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "currentPeriodEnd" TIMESTAMP(3),
+    "cancelAtPeriodEnd" BOOLEAN NOT NULL,
+    "canceledAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "polarModifiedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "polar_subscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "polar_order" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "checkoutId" TEXT,
+    "subscriptionId" TEXT,
+    "status" TEXT NOT NULL,
+    "paid" BOOLEAN NOT NULL,
+    "refundedAmount" INTEGER NOT NULL,
+    "polarModifiedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "polar_order_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "polar_webhook_event" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "polar_webhook_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "polar_subscription_userId_idx" ON "polar_subscription"("userId");
+
+-- CreateIndex
+CREATE INDEX "polar_order_userId_idx" ON "polar_order"("userId");
+
+-- CreateIndex
+CREATE INDEX "polar_order_checkoutId_idx" ON "polar_order"("checkoutId");
+
+-- AddForeignKey
+ALTER TABLE "polar_subscription" ADD CONSTRAINT "polar_subscription_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "polar_order" ADD CONSTRAINT "polar_order_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "favorite_channel" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "favorite_channel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "favorite_channel_userId_channelId_key" ON "favorite_channel"("userId", "channelId");
+
+-- AddForeignKey
+ALTER TABLE "favorite_channel" ADD CONSTRAINT "favorite_channel_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "overlay_settings" (
+    "userId" TEXT NOT NULL,
+    "schemaVersion" INTEGER NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "overlay_settings_pkey" PRIMARY KEY ("userId")
+);
+
+-- AddForeignKey
+ALTER TABLE "overlay_settings" ADD CONSTRAINT "overlay_settings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "stream_event" (
+    "id" TEXT NOT NULL,
+    "broadcasterId" TEXT NOT NULL,
+    "broadcasterLogin" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stream_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stream_event_broadcasterId_occurredAt_idx" ON "stream_event"("broadcasterId", "occurredAt");
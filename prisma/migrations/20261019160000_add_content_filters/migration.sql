@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "content_filter" (
+    "userId" TEXT NOT NULL,
+    "hideMature" BOOLEAN NOT NULL DEFAULT false,
+    "languages" TEXT[],
+    "blockedChannelIds" TEXT[],
+    "blockedGameIds" TEXT[],
+    "mutedTags" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "content_filter_pkey" PRIMARY KEY ("userId")
+);
+
+-- AddForeignKey
+ALTER TABLE "content_filter" ADD CONSTRAINT "content_filter_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "session" ADD COLUMN     "lastSeenAt" TIMESTAMP(3),
+ADD COLUMN     "platform" TEXT;
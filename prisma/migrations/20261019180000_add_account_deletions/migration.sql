@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "account_deletion" (
+    "userId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_deletion_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateIndex
+CREATE INDEX "account_deletion_scheduledFor_idx" ON "account_deletion"("scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "account_deletion" ADD CONSTRAINT "account_deletion_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -4,27 +4,126 @@ import { twitchTokenMiddleware } from './middlewares/twitchTokenMiddleware';
 import { HTTPException } from 'hono/http-exception';
 import { rateLimiter, type Store } from 'hono-rate-limiter';
 import { logger } from 'hono/logger';
+import { upgradeWebSocket, websocket } from 'hono/bun';
+import { streamSSE } from 'hono/streaming';
 import { RedisStore } from 'rate-limit-redis';
-import { createClient } from 'redis';
+import {
+  validateEvent,
+  WebhookVerificationError,
+} from '@polar-sh/sdk/webhooks';
 
-import { NotFoundError } from './interfaces/errors';
+import {
+  BadRequestError,
+  CodedError,
+  ForbiddenError,
+  NotFoundError,
+  PreconditionRequiredError,
+  SettingsConflictError,
+} from './interfaces/errors';
 
 import {
-  fetchChannelData,
-  fetchFollowedStreams,
-  fetchStreamData,
-  fetchUserData,
-  searchStreams,
-  // subscribeToChat,
-  // fetchChannelBadges,
-  // fetchGlobalBadges,
-} from './utils/twitchApi';
-
-import { auth } from './utils/auth';
+  auth,
+  CONSENT_CALLBACK_URLS,
+  DEVICE_VERIFICATION_URL,
+} from './utils/auth';
+import { getChannelBadgeMap } from './utils/badges';
+import { getChannelEmotes } from './utils/emotes';
+import {
+  MAX_CHAT_MESSAGE_LENGTH,
+  sendChatMessageAs,
+} from './utils/chatMessages';
+import { CLIP_PERIODS } from './utils/clips';
+import { VIDEO_TYPES } from './utils/videos';
+import { getEntitlements } from './utils/entitlements';
+import {
+  cancelAccountDeletion,
+  getAccountDeletion,
+  requestAccountDeletion,
+  startAccountDeletionSweep,
+} from './utils/accountDeletion';
+import { exportUserData } from './utils/dataExport';
+import { startDeviceCodeCleanup } from './utils/deviceCodes';
+import { getCheckoutOutcome } from './utils/checkouts';
+import { processPolarEvent } from './utils/polarWebhooks';
+import {
+  addFavorite,
+  getFavoriteChannelIds,
+  removeFavorite,
+  reorderFavorites,
+} from './utils/favorites';
+import {
+  FEATURE_SCOPES,
+  getScopeStatus,
+  isScopedFeature,
+  startScopeConsent,
+} from './utils/scopes';
+import {
+  listSessions,
+  revokeOtherSessions,
+  revokeSession,
+  touchSession,
+} from './utils/sessions';
+import { getSettings, parseETag, saveSettings, toETag } from './utils/settings';
+import {
+  buildStreamer,
+  getFollowedStreamers,
+  resolveStreamers,
+  resolveStreamersByLogin,
+} from './utils/streamers';
+import { getValidUserToken, withUserToken } from './utils/userTokens';
+import {
+  getChannelData,
+  getGameInfo,
+  getGameSearch,
+  getGameStreams,
+  getSearchStreams,
+  getStreamData,
+  getChannelClipsPage,
+  getChannelVideosPage,
+  getTopGamesPage,
+  getUserData,
+} from './utils/twitchCache';
 import { authMiddleware } from './middlewares/authMiddleware';
+import { requireScopes } from './middlewares/scopeMiddleware';
+import { chatRateLimitMiddleware } from './middlewares/chatRateLimitMiddleware';
 
-import prisma from './prismaClient';
-import type { Streamer } from './interfaces/streamer';
+import redisClient from './redisClient';
+import type { ChatClientMessage } from './interfaces/chat';
+import type { ClipPeriod } from './interfaces/clip';
+import type { VideoType } from './interfaces/video';
+import {
+  chatRelay,
+  type ChatListener,
+  type ChatReader,
+} from './utils/chatRelay';
+import {
+  followedStreamsPoller,
+  type FollowedStreamsListener,
+} from './utils/followedStreamsPoller';
+import {
+  handleEventSubMessage,
+  verifyEventSubMessage,
+} from './utils/eventSubWebhooks';
+import {
+  startStreamSubscriptionSync,
+  webhookConfig,
+} from './utils/streamSubscriptions';
+import {
+  applyContentFilters,
+  createStreamEventFilter,
+  getContentFilters,
+  saveContentFilters,
+} from './utils/contentFilters';
+import { decodeCursor, encodeCursor, parsePageSize } from './utils/pagination';
+
+const SSE_KEEPALIVE_INTERVAL = 8 * 1000; // 8 seconds in milliseconds
+// Helix looks up at most 100 logins per request
+const MAX_BULK_CHANNELS = 100;
+const TWITCH_LOGIN = /^[a-z0-9_]{1,25}$/;
+const DEFAULT_SEARCH_PAGE_SIZE = 10;
+const DEFAULT_GAMES_PAGE_SIZE = 20;
+const DEFAULT_MEDIA_PAGE_SIZE = 20;
+const MAX_FOLLOWED_PAGE_SIZE = 100;
 
 const app = new Hono<{
   Variables: {
@@ -41,16 +140,16 @@ const allowedOrigins = [
   'twitchoverlayappnative://',
 ] as const;
 
-const redisClient = await createClient({
-  url: process.env.REDIS_URL,
-})
-  .on('error', (err) => console.log('Redis Client Error', err))
-  .connect();
-
 app.use(
   cors({
     origin: (origin) => {
       if (!origin) return null;
+      if (
+        DEVICE_VERIFICATION_URL &&
+        origin === new URL(DEVICE_VERIFICATION_URL).origin
+      ) {
+        return origin;
+      }
       return allowedOrigins.some((o) => origin.startsWith(o)) ? origin : null;
     },
     allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
@@ -60,8 +159,9 @@ app.use(
       'x-client-id',
       'x-platform',
       'location',
+      'If-Match',
     ],
-    exposeHeaders: ['Content-Length'],
+    exposeHeaders: ['Content-Length', 'ETag', 'Content-Disposition'],
     maxAge: 600,
     credentials: true,
   }),
@@ -72,7 +172,9 @@ app.use(
     windowMs: 15 * 60 * 1000, // 15 minutes
     limit: 1000, // Limit each IP to 500 requests per `window`
     standardHeaders: true,
-    skip: (c) => c.req.path.startsWith('/auth/callback'),
+    skip: (c) =>
+      c.req.path.startsWith('/auth/callback') ||
+      c.req.path.startsWith('/webhooks/'),
     keyGenerator: async (c) => {
       const session = await auth.api.getSession({
         headers: c.req.raw.headers as Headers,
@@ -113,6 +215,11 @@ app.use('*', async (c, next) => {
 
   c.set('user', session.user);
   c.set('session', session.session);
+
+  touchSession(session.session).catch((err) =>
+    console.error(`Failed to update session ${session.session.id}`, err),
+  );
+
   return next();
 });
 
@@ -125,50 +232,550 @@ app.on(['POST', 'GET'], '/auth/*', (c) => {
   return auth.handler(c.req.raw);
 });
 
-app.get('/success', (c) => {
+const paymentRedirects = {
+  native: 'twitchoverlayappnative://',
+  electron: 'twitchoverlayapp://',
+} as const;
+
+const paymentOutcomePaths = {
+  succeeded: 'paymentSuccess',
+  pending: 'paymentPending',
+  failed: 'paymentFailed',
+} as const;
+
+app.get('/success', async (c) => {
   const platform = c.req.query('platform');
+  const checkoutId = c.req.query('checkout_id');
 
-  if (platform === 'native') {
-    return c.redirect(`twitchoverlayappnative://paymentSuccess`);
+  if (platform !== 'native' && platform !== 'electron') {
+    return c.json({ message: 'Platform not found' }, 400);
   }
 
-  if (platform === 'electron') {
-    return c.redirect('twitchoverlayapp://paymentSuccess');
+  if (!checkoutId) {
+    return c.json({ message: 'Checkout not found' }, 400);
   }
 
-  return c.json({ message: 'Platform not found' }, 400);
+  const outcome = await getCheckoutOutcome(checkoutId);
+
+  return c.redirect(
+    `${paymentRedirects[platform]}${paymentOutcomePaths[outcome]}`,
+  );
 });
 
-// Get followed channels
-app.get('/channels/followed', authMiddleware, async (c) => {
+// Device sign in codes point here, send the user to the approval page
+app.get('/device', (c) => {
+  if (!DEVICE_VERIFICATION_URL) {
+    throw new NotFoundError('Device sign in is not available');
+  }
+
+  const url = new URL(DEVICE_VERIFICATION_URL);
+  const userCode = c.req.query('user_code');
+
+  if (userCode) {
+    url.searchParams.set('user_code', userCode);
+  }
+
+  return c.redirect(url.toString());
+});
+
+// Polar subscription and order events
+app.post('/webhooks/polar', async (c) => {
+  const body = await c.req.text();
+  const headers = Object.fromEntries(c.req.raw.headers);
+
+  let event;
+  try {
+    event = validateEvent(body, headers, process.env.POLAR_WEBHOOK_SECRET!);
+  } catch (err) {
+    if (err instanceof WebhookVerificationError) {
+      throw new ForbiddenError('Invalid webhook signature');
+    }
+    throw err;
+  }
+
+  const processed = await processPolarEvent(headers['webhook-id'], event);
+
+  return c.json({
+    received: true,
+    duplicate: !processed,
+  });
+});
+
+// Twitch EventSub stream online/offline events
+app.post('/webhooks/twitch', async (c) => {
+  const config = webhookConfig();
+
+  if (!config) {
+    throw new NotFoundError('Go-live notifications are not configured');
+  }
+
+  const body = await c.req.text();
+
+  const message = verifyEventSubMessage({
+    headers: c.req.header(),
+    body,
+    secret: config.secret,
+  });
+
+  if (message.type === 'webhook_callback_verification') {
+    return c.text(message.challenge);
+  }
+
+  const processed = await handleEventSubMessage(message);
+
+  return c.json({
+    received: true,
+    duplicate: !processed,
+  });
+});
+
+// Schedule the user's account for deletion after a grace period
+app.delete('/me', authMiddleware, async (c) => {
   const user = c.var.user;
 
-  const twitchAccount = await prisma.account.findFirst({
-    where: {
-      userId: user.id,
-      providerId: 'twitch',
-    },
-    select: {
-      accountId: true,
-      accessToken: true,
+  const deletion = await requestAccountDeletion(user.id);
+
+  return c.json(
+    {
+      deletion,
     },
+    202,
+  );
+});
+
+// Get the user's scheduled account deletion, if any
+app.get('/me/deletion', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const deletion = await getAccountDeletion(user.id);
+
+  return c.json({
+    deletion,
+  });
+});
+
+// Cancel the user's scheduled account deletion
+app.delete('/me/deletion', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const cancelled = await cancelAccountDeletion(user.id);
+
+  if (!cancelled) {
+    throw new NotFoundError('No account deletion scheduled');
+  }
+
+  return c.json({
+    message: 'Account deletion cancelled',
+  });
+});
+
+// Download everything we store about the user
+app.get('/me/export', authMiddleware, async (c) => {
+  const user = c.var.user;
+  const session = c.get('session')!;
+
+  const data = await exportUserData(user.id, session.id);
+
+  c.header(
+    'Content-Disposition',
+    `attachment; filename="overlay-export-${data.exportedAt.slice(0, 10)}.json"`,
+  );
+
+  return c.json(data);
+});
+
+// Get what the user has paid for
+app.get('/me/entitlements', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const entitlements = await getEntitlements(user.id);
+
+  return c.json({
+    entitlements,
+  });
+});
+
+// Get the Twitch scopes the user granted and what each feature is missing
+app.get('/me/scopes', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const scopes = await getScopeStatus(user.id);
+
+  return c.json({
+    scopes,
+  });
+});
+
+// Start a Twitch authorization that grants the scopes features are missing
+app.post('/me/scopes/consent', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const { features, callbackURL = CONSENT_CALLBACK_URLS[0]! } =
+    await c.req.json<{ features?: unknown; callbackURL?: string }>();
+
+  if (
+    !Array.isArray(features) ||
+    features.length === 0 ||
+    !features.every(isScopedFeature)
+  ) {
+    throw new BadRequestError(
+      `features must be a list of ${Object.keys(FEATURE_SCOPES).join(', ')}`,
+    );
+  }
+
+  const { url, missing } = await startScopeConsent({
+    userId: user.id,
+    headers: c.req.raw.headers,
+    features,
+    callbackURL,
+  });
+
+  return c.json({
+    url,
+    missing,
+  });
+});
+
+// Get the user's signed in sessions across apps
+app.get('/me/sessions', authMiddleware, async (c) => {
+  const user = c.var.user;
+  const session = c.get('session')!;
+
+  const sessions = await listSessions(user.id, session.id);
+
+  return c.json({
+    sessions,
+  });
+});
+
+// Sign out every session but the current one
+app.delete('/me/sessions', authMiddleware, async (c) => {
+  const user = c.var.user;
+  const session = c.get('session')!;
+
+  const revoked = await revokeOtherSessions(user.id, session.id);
+
+  return c.json({
+    revoked,
+  });
+});
+
+// Sign out one of the user's sessions
+app.delete('/me/sessions/:id', authMiddleware, async (c) => {
+  const user = c.var.user;
+  const sessionId = c.req.param('id');
+
+  const revoked = await revokeSession(user.id, sessionId);
+
+  if (!revoked) {
+    throw new NotFoundError('Session not found');
+  }
+
+  return c.json({
+    message: 'Session revoked',
+  });
+});
+
+// Get followed channels
+app.get(
+  '/channels/followed',
+  authMiddleware,
+  requireScopes('followedStreams'),
+  async (c) => {
+    const user = c.var.user;
+    const { first, cursor } = c.req.query();
+
+    const scope = `followed:${user.id}`;
+    const pageSize = parsePageSize(first, MAX_FOLLOWED_PAGE_SIZE);
+    const after = decodeCursor(scope, cursor);
+
+    const [followed, favoriteChannelIds] = await Promise.all([
+      withUserToken(user.id, (token) =>
+        getFollowedStreamers({
+          accountId: token.accountId,
+          userAccessToken: token.accessToken,
+          first: pageSize,
+          after,
+        }),
+      ),
+      getFavoriteChannelIds(user.id),
+    ]);
+
+    const pinned = new Set(favoriteChannelIds);
+    const { streamers, hidden } = await applyContentFilters(
+      user.id,
+      followed.streamers,
+    );
+
+    return c.json({
+      followedStreams: streamers.map((streamer) => ({
+        ...streamer,
+        isPinned: pinned.has(streamer.channelId),
+      })),
+      hidden,
+      cursor: encodeCursor(scope, followed.cursor),
+    });
+  },
+);
+
+// Push changes to followed channels as Server-Sent Events
+app.get(
+  '/channels/followed/events',
+  authMiddleware,
+  requireScopes('followedStreams'),
+  async (c) => {
+    const user = c.var.user;
+
+    const filterEvent = createStreamEventFilter(
+      await getContentFilters(user.id),
+    );
+
+    return streamSSE(c, async (stream) => {
+      let eventId = 0;
+      let close = () => {};
+      const closed = new Promise<void>((resolve) => {
+        close = resolve;
+      });
+
+      const listener: FollowedStreamsListener = {
+        send: (event) => {
+          const filtered = filterEvent(event);
+          if (!filtered) return;
+
+          stream.writeSSE({
+            id: String(++eventId),
+            event: filtered.type,
+            data: JSON.stringify(filtered),
+          });
+        },
+        close,
+      };
+
+      stream.onAbort(close);
+
+      // Bun closes connections that are idle for 10 seconds
+      const keepalive = setInterval(
+        () => stream.write(': keepalive\n\n'),
+        SSE_KEEPALIVE_INTERVAL,
+      );
+
+      try {
+        // Every (re)connect starts from a full snapshot, so clients never
+        // have to replay events they missed
+        const streams = await followedStreamsPoller.add(user.id, listener);
+        listener.send({ type: 'snapshot', streams });
+
+        await closed;
+      } catch (err) {
+        console.error(`[${new Date().toISOString()}] ${err}`);
+        listener.send({
+          type: 'error',
+          ...(err instanceof CodedError && { code: err.code }),
+          message:
+            err instanceof HTTPException
+              ? err.message
+              : 'An unexpected error occurred',
+        });
+      } finally {
+        clearInterval(keepalive);
+        followedStreamsPoller.remove(user.id, listener);
+      }
+    });
+  },
+);
+
+// Get the user's pinned channels, live or offline, in their order
+app.get('/me/favorites', authMiddleware, twitchTokenMiddleware, async (c) => {
+  const user = c.var.user;
+  const twitch = c.get('twitch');
+
+  const channelIds = await getFavoriteChannelIds(user.id);
+
+  const { streamers, hidden } = await applyContentFilters(
+    user.id,
+    await resolveStreamers({
+      channelIds,
+      accessToken: twitch.access_token,
+    }),
+  );
+
+  return c.json({
+    favorites: streamers.map((streamer) => ({ ...streamer, isPinned: true })),
+    hidden,
+  });
+});
+
+// Pin a channel
+app.post('/me/favorites', authMiddleware, twitchTokenMiddleware, async (c) => {
+  const user = c.var.user;
+  const twitch = c.get('twitch');
+
+  const { login } = await c.req.json<{ login?: string }>();
+
+  if (typeof login !== 'string' || !login) {
+    throw new BadRequestError('login is required');
+  }
+
+  const { value: userData } = await getUserData({
+    loginName: login,
+    accessToken: twitch.access_token,
   });
 
+  if (!userData) {
+    throw new NotFoundError('Channel not found');
+  }
+
+  const favorite = await addFavorite(user.id, userData.id);
+
+  return c.json(
+    {
+      favorite: {
+        channelId: favorite.channelId,
+        position: favorite.position,
+      },
+    },
+    201,
+  );
+});
+
+// Reorder pinned channels
+app.put('/me/favorites', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const { channelIds } = await c.req.json<{ channelIds?: unknown }>();
+
   if (
-    !twitchAccount ||
-    !twitchAccount.accessToken ||
-    !twitchAccount.accountId
+    !Array.isArray(channelIds) ||
+    !channelIds.every((id) => typeof id === 'string')
   ) {
-    throw new NotFoundError('User Twitch account not found');
+    throw new BadRequestError('channelIds must be an array of channel ids');
   }
 
-  const followedStreams = await fetchFollowedStreams({
-    accountId: twitchAccount.accountId,
-    userAccessToken: twitchAccount.accessToken,
+  const ordered = await reorderFavorites(user.id, channelIds);
+
+  return c.json({
+    channelIds: ordered,
   });
+});
+
+// Unpin a channel
+app.delete('/me/favorites/:channelId', authMiddleware, async (c) => {
+  const user = c.var.user;
+  const channelId = c.req.param('channelId');
+
+  const removed = await removeFavorite(user.id, channelId);
+
+  if (!removed) {
+    throw new NotFoundError('Favorite not found');
+  }
 
   return c.json({
-    followedStreams,
+    message: 'Favorite removed',
+  });
+});
+
+// Get the user's content filters
+app.get('/me/filters', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const filters = await getContentFilters(user.id);
+
+  return c.json({
+    filters,
+  });
+});
+
+// Replace the user's content filters
+app.put('/me/filters', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const { filters } = await c.req.json<{ filters?: unknown }>();
+
+  const saved = await saveContentFilters(user.id, filters);
+
+  return c.json({
+    filters: saved,
+  });
+});
+
+// Get the user's overlay settings
+app.get('/me/settings', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const { settings, revision } = await getSettings(user.id);
+
+  c.header('ETag', toETag(revision));
+  return c.json({
+    settings,
+    revision,
+  });
+});
+
+// Replace the user's overlay settings, If-Match must match the current ETag
+app.put('/me/settings', authMiddleware, async (c) => {
+  const user = c.var.user;
+
+  const ifMatch = c.req.header('If-Match');
+  if (!ifMatch) {
+    throw new PreconditionRequiredError();
+  }
+
+  const expectedRevision = parseETag(ifMatch);
+  if (expectedRevision === null) {
+    throw new SettingsConflictError();
+  }
+
+  const body = await c.req.json<{ settings?: unknown }>();
+
+  const { settings, revision } = await saveSettings(
+    user.id,
+    body.settings,
+    expectedRevision,
+  );
+
+  c.header('ETag', toETag(revision));
+  return c.json({
+    settings,
+    revision,
+  });
+});
+
+// Get several channels by name at once
+app.get('/channels', twitchTokenMiddleware, async (c) => {
+  const twitch = c.get('twitch');
+
+  const logins = [
+    ...new Set(
+      (c.req.queries('login') ?? []).map((login) => login.trim().toLowerCase()),
+    ),
+  ];
+
+  if (logins.length === 0 || logins.length > MAX_BULK_CHANNELS) {
+    throw new BadRequestError(
+      `Between 1 and ${MAX_BULK_CHANNELS} login parameters are required`,
+    );
+  }
+
+  // Helix rejects the whole batch over one malformed login
+  const validLogins = logins.filter((login) => TWITCH_LOGIN.test(login));
+
+  const resolved = await resolveStreamersByLogin({
+    loginNames: validLogins,
+    accessToken: twitch.access_token,
+  });
+  const { streamers, hidden } = await applyContentFilters(
+    c.var.user?.id,
+    resolved.streamers,
+  );
+
+  const missing = new Set(resolved.notFound);
+
+  return c.json({
+    streamers,
+    hidden,
+    notFound: logins.filter(
+      (login) => !TWITCH_LOGIN.test(login) || missing.has(login),
+    ),
   });
 });
 
@@ -177,7 +784,7 @@ app.get('/channels/:name', twitchTokenMiddleware, async (c) => {
   const name = c.req.param('name');
   const twitch = c.get('twitch');
 
-  const userData = await fetchUserData({
+  const { value: userData, stale: staleUser } = await getUserData({
     loginName: name,
     accessToken: twitch.access_token,
   });
@@ -187,28 +794,19 @@ app.get('/channels/:name', twitchTokenMiddleware, async (c) => {
   }
 
   const broadcasterId = userData.id;
-  const streamData = await fetchStreamData({
+  const { value: streamData, stale: staleStream } = await getStreamData({
     userId: broadcasterId,
     accessToken: twitch.access_token,
   });
 
   if (streamData) {
-    const streamer: Streamer = {
-      channelId: userData.id,
-      displayName: userData.display_name,
-      loginName: userData.login,
-      profileImageUrl: userData.profile_image_url,
-      gameName: streamData.game_name,
-      viewers: streamData.viewer_count,
-      isLive: streamData.type === 'live',
-      title: streamData.title,
-    };
     return c.json({
-      streamer,
+      streamer: buildStreamer(userData, streamData),
+      stale: staleUser || staleStream,
     });
   }
 
-  const channelData = await fetchChannelData({
+  const { value: channelData, stale: staleChannel } = await getChannelData({
     userId: broadcasterId,
     accessToken: twitch.access_token,
   });
@@ -217,19 +815,9 @@ app.get('/channels/:name', twitchTokenMiddleware, async (c) => {
     throw new NotFoundError('Channel not found');
   }
 
-  const streamer: Streamer = {
-    channelId: userData.id,
-    displayName: userData.display_name,
-    loginName: userData.login,
-    profileImageUrl: userData.profile_image_url,
-    gameName: channelData.game_name,
-    title: channelData.title,
-    viewers: 0,
-    isLive: false,
-  };
-
   return c.json({
-    streamer,
+    streamer: buildStreamer(userData, undefined, channelData),
+    stale: staleUser || staleStream || staleChannel,
   });
 });
 
@@ -237,79 +825,363 @@ app.get('/channels/:name', twitchTokenMiddleware, async (c) => {
 app.get('/streams/:name', twitchTokenMiddleware, async (c) => {
   const name = c.req.param('name');
   const twitch = c.get('twitch');
+  const { offline, first, language, gameId, cursor } = c.req.query();
 
-  const streamers = await searchStreams({
+  const options = {
+    includeOffline: offline === 'true',
+    first: parsePageSize(first, DEFAULT_SEARCH_PAGE_SIZE),
+    language: language?.toLowerCase() || undefined,
+    gameId: gameId || undefined,
+  };
+  // Cursors only continue the exact search they came from
+  const scope = `search:${name.toLowerCase()}:${JSON.stringify(options)}`;
+
+  const { value, stale } = await getSearchStreams({
     searchQuery: name,
     accessToken: twitch.access_token,
+    ...options,
+    after: decodeCursor(scope, cursor),
+  });
+
+  // Search results are cached for everyone, filters apply afterwards
+  const { streamers, hidden } = await applyContentFilters(
+    c.var.user?.id,
+    value.streamers,
+  );
+
+  return c.json({
+    streamers,
+    hidden,
+    cursor: encodeCursor(scope, value.cursor),
+    stale,
+  });
+});
+
+// Get the categories with the most viewers
+app.get('/games/top', twitchTokenMiddleware, async (c) => {
+  const twitch = c.get('twitch');
+  const { first, cursor } = c.req.query();
+
+  const scope = 'games:top';
+  const { value, stale } = await getTopGamesPage({
+    first: parsePageSize(first, DEFAULT_GAMES_PAGE_SIZE),
+    after: decodeCursor(scope, cursor),
+    accessToken: twitch.access_token,
+  });
+
+  return c.json({
+    games: value.games,
+    cursor: encodeCursor(scope, value.cursor),
+    stale,
+  });
+});
+
+// Search categories by name
+app.get('/games/search', twitchTokenMiddleware, async (c) => {
+  const twitch = c.get('twitch');
+  const { q, first, cursor } = c.req.query();
+
+  if (!q?.trim()) {
+    throw new BadRequestError('q is required');
+  }
+
+  const scope = `games:search:${q.trim().toLowerCase()}`;
+  const { value, stale } = await getGameSearch({
+    searchQuery: q.trim(),
+    first: parsePageSize(first, DEFAULT_GAMES_PAGE_SIZE),
+    after: decodeCursor(scope, cursor),
+    accessToken: twitch.access_token,
   });
 
   return c.json({
+    games: value.games,
+    cursor: encodeCursor(scope, value.cursor),
+    stale,
+  });
+});
+
+// Get the live streams in a category
+app.get('/games/:id/streams', twitchTokenMiddleware, async (c) => {
+  const gameId = c.req.param('id');
+  const twitch = c.get('twitch');
+  const { first, language, cursor } = c.req.query();
+
+  const options = {
+    first: parsePageSize(first, DEFAULT_SEARCH_PAGE_SIZE),
+    language: language?.toLowerCase() || undefined,
+  };
+  const scope = `games:streams:${gameId}:${JSON.stringify(options)}`;
+
+  const [{ value: game, stale: staleGame }, { value, stale: staleStreams }] =
+    await Promise.all([
+      getGameInfo({ gameId, accessToken: twitch.access_token }),
+      getGameStreams({
+        gameId,
+        ...options,
+        after: decodeCursor(scope, cursor),
+        accessToken: twitch.access_token,
+      }),
+    ]);
+
+  if (!game) {
+    throw new NotFoundError('Category not found');
+  }
+
+  const { streamers, hidden } = await applyContentFilters(
+    c.var.user?.id,
+    value.streamers,
+  );
+
+  return c.json({
+    game,
     streamers,
+    hidden,
+    cursor: encodeCursor(scope, value.cursor),
+    stale: staleGame || staleStreams,
   });
 });
 
-// app.get('/channels/:name/badges', twitchTokenMiddleware, async (c) => {
-//   const name = c.req.param('name');
-//   const twitch = c.get('twitch');
-
-//   const [badges, globalBadges] = await Promise.all([
-//     fetchChannelBadges({
-//       loginName: name,
-//       accessToken: twitch.access_token,
-//     }),
-//     fetchGlobalBadges({
-//       accessToken: twitch.access_token,
-//     }),
-//   ]);
-
-//   return c.json({
-//     badges,
-//     globalBadges,
-//   });
-// });
-
-// app.post('/eventsub/chat', authMiddleware, async (c) => {
-//   const user = c.var.user;
-
-//   const body = await c.req.json();
-
-//   const { broadcaster_name, session_id } = body.data;
-
-//   const userTwitchAccount = await prisma.account.findFirst({
-//     where: {
-//       userId: user.id,
-//       providerId: 'twitch',
-//     },
-//     select: {
-//       accountId: true,
-//       accessToken: true,
-//     },
-//   });
-
-//   if (!userTwitchAccount || !userTwitchAccount.accessToken) {
-//     throw new NotFoundError('User Twitch account not found');
-//   }
-
-//   const broadcaster = await fetchUserData({
-//     loginName: broadcaster_name,
-//     accessToken: userTwitchAccount.accessToken,
-//   });
-
-//   if (!broadcaster) {
-//     throw new NotFoundError('Broadcaster not found');
-//   }
-
-//   await subscribeToChat({
-//     userId: userTwitchAccount.accountId,
-//     broadcasterId: broadcaster.id,
-//     accessToken: userTwitchAccount.accessToken,
-//     sessionId: session_id,
-//   });
-
-//   return c.json({
-//     message: 'Event Sub received',
-//   });
-// });
+// Get the chat badges of a channel
+app.get('/channels/:name/badges', twitchTokenMiddleware, async (c) => {
+  const name = c.req.param('name');
+  const twitch = c.get('twitch');
+
+  const { value: userData } = await getUserData({
+    loginName: name,
+    accessToken: twitch.access_token,
+  });
+
+  if (!userData) {
+    throw new NotFoundError('Channel not found');
+  }
+
+  const badges = await getChannelBadgeMap({
+    broadcasterId: userData.id,
+    accessToken: twitch.access_token,
+  });
+
+  return c.json({
+    badges,
+  });
+});
+
+// Get the chat emotes of a channel
+app.get('/channels/:name/emotes', twitchTokenMiddleware, async (c) => {
+  const name = c.req.param('name');
+  const twitch = c.get('twitch');
+
+  const { value: userData } = await getUserData({
+    loginName: name,
+    accessToken: twitch.access_token,
+  });
+
+  if (!userData) {
+    throw new NotFoundError('Channel not found');
+  }
+
+  const emotes = await getChannelEmotes({
+    broadcasterId: userData.id,
+    accessToken: twitch.access_token,
+  });
+
+  return c.json({
+    emotes,
+  });
+});
+
+// Get a channel's most viewed clips
+app.get('/channels/:name/clips', twitchTokenMiddleware, async (c) => {
+  const name = c.req.param('name');
+  const twitch = c.get('twitch');
+  const { period = '7d', first, cursor } = c.req.query();
+
+  if (!Object.keys(CLIP_PERIODS).includes(period)) {
+    throw new BadRequestError(
+      `period must be one of ${Object.keys(CLIP_PERIODS).join(', ')}`,
+    );
+  }
+
+  const { value: userData } = await getUserData({
+    loginName: name,
+    accessToken: twitch.access_token,
+  });
+
+  if (!userData) {
+    throw new NotFoundError('Channel not found');
+  }
+
+  const pageSize = parsePageSize(first, DEFAULT_MEDIA_PAGE_SIZE);
+  const scope = `clips:${userData.id}:${period}:${pageSize}`;
+
+  const { value, stale } = await getChannelClipsPage({
+    broadcasterId: userData.id,
+    period: period as ClipPeriod,
+    first: pageSize,
+    after: decodeCursor(scope, cursor),
+    accessToken: twitch.access_token,
+  });
+
+  return c.json({
+    clips: value.clips,
+    cursor: encodeCursor(scope, value.cursor),
+    stale,
+  });
+});
+
+// Get a channel's past broadcasts, highlights and uploads
+app.get('/channels/:name/videos', twitchTokenMiddleware, async (c) => {
+  const name = c.req.param('name');
+  const twitch = c.get('twitch');
+  const { type, first, cursor } = c.req.query();
+
+  if (type && !VIDEO_TYPES.includes(type as VideoType)) {
+    throw new BadRequestError(`type must be one of ${VIDEO_TYPES.join(', ')}`);
+  }
+
+  const { value: userData } = await getUserData({
+    loginName: name,
+    accessToken: twitch.access_token,
+  });
+
+  if (!userData) {
+    throw new NotFoundError('Channel not found');
+  }
+
+  const pageSize = parsePageSize(first, DEFAULT_MEDIA_PAGE_SIZE);
+  const scope = `videos:${userData.id}:${type ?? 'all'}:${pageSize}`;
+
+  const { value, stale } = await getChannelVideosPage({
+    userId: userData.id,
+    type: type as VideoType | undefined,
+    first: pageSize,
+    after: decodeCursor(scope, cursor),
+    accessToken: twitch.access_token,
+  });
+
+  return c.json({
+    videos: value.videos,
+    cursor: encodeCursor(scope, value.cursor),
+    stale,
+  });
+});
+
+// Send a chat message to a channel as the signed in user
+app.post(
+  '/channels/:name/chat',
+  authMiddleware,
+  requireScopes('chatSend'),
+  chatRateLimitMiddleware,
+  twitchTokenMiddleware,
+  async (c) => {
+    const name = c.req.param('name');
+    const user = c.var.user;
+    const twitch = c.get('twitch');
+
+    const { message, replyTo } = await c.req.json<{
+      message?: string;
+      replyTo?: string;
+    }>();
+
+    if (typeof message !== 'string' || !message.trim()) {
+      throw new BadRequestError('message is required');
+    }
+
+    if (message.length > MAX_CHAT_MESSAGE_LENGTH) {
+      throw new BadRequestError(
+        `message can't be longer than ${MAX_CHAT_MESSAGE_LENGTH} characters`,
+      );
+    }
+
+    if (replyTo !== undefined && (typeof replyTo !== 'string' || !replyTo)) {
+      throw new BadRequestError('replyTo must be a message id');
+    }
+
+    const { value: userData } = await getUserData({
+      loginName: name,
+      accessToken: twitch.access_token,
+    });
+
+    if (!userData) {
+      throw new NotFoundError('Channel not found');
+    }
+
+    const { messageId } = await sendChatMessageAs({
+      userId: user.id,
+      broadcasterId: userData.id,
+      message,
+      replyParentMessageId: replyTo,
+    });
+
+    return c.json({ messageId }, 201);
+  },
+);
+
+// Relay chat of subscribed channels to the client
+app.get(
+  '/chat/ws',
+  authMiddleware,
+  requireScopes('chatRelay'),
+  upgradeWebSocket(async (c) => {
+    const user = c.get('user') as typeof auth.$Infer.Session.user;
+
+    // Fails the upgrade early if the user has no usable Twitch account
+    const { accountId } = await getValidUserToken(user.id);
+
+    const reader: ChatReader = {
+      userId: user.id,
+      twitchUserId: accountId,
+    };
+    let listener: ChatListener | null = null;
+
+    return {
+      onOpen: (_evt, ws) => {
+        listener = {
+          send: (message) => ws.send(JSON.stringify(message)),
+        };
+      },
+      onMessage: async (evt) => {
+        if (!listener) return;
+
+        let message: ChatClientMessage;
+        try {
+          message = JSON.parse(String(evt.data));
+        } catch {
+          return listener.send({ type: 'error', message: 'Invalid JSON' });
+        }
+
+        const channel = message.channel?.toLowerCase();
+        if (!channel) {
+          return listener.send({ type: 'error', message: 'Missing channel' });
+        }
+
+        try {
+          if (message.type === 'subscribe') {
+            const login = await chatRelay.subscribe(listener, channel, reader);
+            listener.send({ type: 'subscribed', channel: login });
+          } else if (message.type === 'unsubscribe') {
+            await chatRelay.unsubscribe(listener, channel);
+            listener.send({ type: 'unsubscribed', channel });
+          } else {
+            listener.send({ type: 'error', message: 'Unknown message type' });
+          }
+        } catch (err) {
+          console.error(`[${new Date().toISOString()}] ${err}`);
+          listener.send({
+            type: 'error',
+            channel,
+            message:
+              err instanceof HTTPException
+                ? err.message
+                : 'An unexpected error occurred',
+          });
+        }
+      },
+      onClose: () => {
+        if (listener) chatRelay.removeListener(listener);
+      },
+    };
+  }),
+);
 
 app.notFound((c) => {
   return c.json({ error: 'Route Not Found' }, 404);
@@ -322,6 +1194,9 @@ app.onError((err, c) => {
     return c.json(
       {
         message: err.message,
+        ...(err instanceof CodedError && { code: err.code }),
+        ...(err instanceof CodedError &&
+          err.details && { details: err.details }),
       },
       err.status,
     );
@@ -335,7 +1210,12 @@ app.onError((err, c) => {
   );
 });
 
+startStreamSubscriptionSync();
+startAccountDeletionSweep();
+startDeviceCodeCleanup();
+
 export default {
   port: process.env.PORT || 3000,
   fetch: app.fetch,
+  websocket,
 };
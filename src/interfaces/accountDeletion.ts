@@ -0,0 +1,5 @@
+export interface AccountDeletion {
+  requestedAt: string;
+  // When the account is deleted unless the deletion is cancelled first
+  scheduledFor: string;
+}
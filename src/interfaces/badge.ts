@@ -0,0 +1,11 @@
+export interface Badge {
+  setId: string;
+  version: string;
+  title: string;
+  imageUrl1x: string;
+  imageUrl2x: string;
+  imageUrl4x: string;
+}
+
+// Keyed by `${setId}/${version}`, matching the badges on chat messages
+export type BadgeMap = Record<string, Badge>;
@@ -0,0 +1,66 @@
+export interface ChatMessageFragment {
+  type: 'text' | 'cheermote' | 'emote' | 'mention';
+  text: string;
+  cheermote: {
+    prefix: string;
+    bits: number;
+    tier: number;
+  } | null;
+  emote: {
+    id: string;
+    emote_set_id: string;
+    owner_id: string;
+    format: string[];
+  } | null;
+  mention: {
+    user_id: string;
+    user_name: string;
+    user_login: string;
+  } | null;
+}
+
+export interface ChatMessageEvent {
+  broadcaster_user_id: string;
+  broadcaster_user_login: string;
+  broadcaster_user_name: string;
+  chatter_user_id: string;
+  chatter_user_login: string;
+  chatter_user_name: string;
+  message_id: string;
+  message: {
+    text: string;
+    fragments: ChatMessageFragment[];
+  };
+  message_type: string;
+  color: string;
+  badges: {
+    set_id: string;
+    id: string;
+    info: string;
+  }[];
+  cheer: { bits: number } | null;
+  reply: {
+    parent_message_id: string;
+    parent_message_body: string;
+    parent_user_id: string;
+    parent_user_name: string;
+    parent_user_login: string;
+    thread_message_id: string;
+    thread_user_id: string;
+    thread_user_name: string;
+    thread_user_login: string;
+  } | null;
+  channel_points_custom_reward_id: string | null;
+}
+
+// Messages sent by overlay clients over the chat WebSocket
+export type ChatClientMessage =
+  | { type: 'subscribe'; channel: string }
+  | { type: 'unsubscribe'; channel: string };
+
+// Messages sent to overlay clients over the chat WebSocket
+export type ChatServerMessage =
+  | { type: 'subscribed'; channel: string }
+  | { type: 'unsubscribed'; channel: string }
+  | { type: 'message'; channel: string; event: ChatMessageEvent }
+  | { type: 'error'; channel?: string; message: string };
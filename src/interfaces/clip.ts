@@ -0,0 +1,18 @@
+export type ClipPeriod = '24h' | '7d' | '30d' | 'all';
+
+export interface Clip {
+  id: string;
+  url: string;
+  embedUrl: string;
+  title: string;
+  creatorName: string;
+  gameId: string;
+  language: string;
+  viewCount: number;
+  durationSeconds: number;
+  thumbnailUrl: string;
+  createdAt: string;
+  // The VOD the clip was cut from, null once the VOD is gone
+  videoId: string | null;
+  isFeatured: boolean;
+}
@@ -0,0 +1,9 @@
+export interface ContentFilters {
+  hideMature: boolean;
+  // ISO 639-1 codes to keep, every language is shown when empty
+  languages: string[];
+  blockedChannelIds: string[];
+  blockedGameIds: string[];
+  // Matched case-insensitively
+  mutedTags: string[];
+}
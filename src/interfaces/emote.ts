@@ -0,0 +1,28 @@
+export type EmoteSource = 'twitch';
+
+export interface Emote {
+  id: string;
+  code: string;
+  animated: boolean;
+  urls: {
+    '1x': string;
+    '2x': string;
+    '4x': string;
+  };
+  source: EmoteSource;
+}
+
+export interface EmoteProviderContext {
+  broadcasterId: string;
+  accessToken: string;
+}
+
+/**
+ * A source of emotes. Third-party emote services plug in by implementing this
+ * and being added to the provider list in `utils/emotes.ts`.
+ */
+export interface EmoteProvider {
+  source: EmoteSource;
+  fetchGlobalEmotes: (context: EmoteProviderContext) => Promise<Emote[]>;
+  fetchChannelEmotes: (context: EmoteProviderContext) => Promise<Emote[]>;
+}
@@ -0,0 +1,15 @@
+export type Plan = 'monthly' | 'yearly' | 'lifetime';
+
+export type Tier = 'free' | 'premium';
+
+export type Feature = 'chatRelay' | 'multiStream' | 'notifications';
+
+export interface Entitlements {
+  tier: Tier;
+  plan: Plan | null;
+  // When the current paid period ends, null for lifetime and free users
+  expiresAt: string | null;
+  // Set when a subscription was canceled but is still paid up
+  cancelAtPeriodEnd: boolean;
+  features: Feature[];
+}
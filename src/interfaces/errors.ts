@@ -1,4 +1,11 @@
 import { HTTPException } from 'hono/http-exception';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+
+export class BadRequestError extends HTTPException {
+  constructor(message: string) {
+    super(400, { message });
+  }
+}
 
 export class AuthenticationError extends HTTPException {
   constructor(message: string = 'Unauthorized') {
@@ -6,8 +13,120 @@ export class AuthenticationError extends HTTPException {
   }
 }
 
+export class ForbiddenError extends HTTPException {
+  constructor(message: string = 'Forbidden') {
+    super(403, { message });
+  }
+}
+
 export class NotFoundError extends HTTPException {
   constructor(message: string) {
     super(404, { message });
   }
 }
+
+export class TwitchApiError extends HTTPException {
+  constructor(
+    readonly upstreamStatus: number,
+    message: string,
+    status: ContentfulStatusCode = 502,
+  ) {
+    super(status, { message });
+  }
+}
+
+export class TwitchAuthError extends TwitchApiError {
+  constructor(message: string = 'Twitch rejected the access token') {
+    super(401, message, 401);
+  }
+}
+
+export class TwitchRateLimitError extends TwitchApiError {
+  constructor(
+    readonly retryAfterMs: number,
+    message: string = 'Twitch rate limit exceeded',
+  ) {
+    super(429, message, 429);
+  }
+}
+
+export class TwitchTimeoutError extends TwitchApiError {
+  constructor(message: string = 'Twitch request timed out') {
+    super(0, message, 504);
+  }
+}
+
+// Errors the apps branch on carry a machine-readable `code` in the response
+export class CodedError extends HTTPException {
+  constructor(
+    status: ContentfulStatusCode,
+    readonly code: string,
+    message: string,
+    // Extra machine-readable context, sent along as `details`
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(status, { message });
+  }
+}
+
+export class ReauthenticationRequiredError extends CodedError {
+  constructor(message: string = 'Twitch authorization expired, sign in again') {
+    super(401, 'REAUTH_REQUIRED', message);
+  }
+}
+
+export class EntitlementRequiredError extends CodedError {
+  constructor(feature: string, paid: boolean) {
+    super(
+      paid ? 403 : 402,
+      paid ? 'FEATURE_NOT_INCLUDED' : 'PREMIUM_REQUIRED',
+      paid
+        ? `Your plan does not include ${feature}`
+        : `${feature} requires a premium subscription`,
+    );
+  }
+}
+
+export class PreconditionRequiredError extends CodedError {
+  constructor(message: string = 'If-Match header is required') {
+    super(428, 'PRECONDITION_REQUIRED', message);
+  }
+}
+
+export class SettingsConflictError extends CodedError {
+  constructor(
+    message: string = 'Settings were changed on another device, fetch them again',
+  ) {
+    super(409, 'SETTINGS_CONFLICT', message);
+  }
+}
+
+export class ChatRateLimitError extends CodedError {
+  constructor(message: string = 'Sending messages too quickly, slow down') {
+    super(429, 'CHAT_RATE_LIMITED', message);
+  }
+}
+
+// Twitch accepted the request but didn't deliver the message, e.g. because
+// of AutoMod or the channel's chat settings
+export class ChatMessageDroppedError extends CodedError {
+  constructor(dropCode: string, message: string) {
+    super(422, 'MESSAGE_DROPPED', message, { dropReason: dropCode });
+  }
+}
+
+export class ChatNotAllowedError extends CodedError {
+  constructor(message: string = "You can't send messages in this channel") {
+    super(403, 'CHAT_NOT_ALLOWED', message);
+  }
+}
+
+// The user's Twitch token lacks scopes, they have to re-consent to add them
+export class MissingScopeError extends CodedError {
+  constructor(feature: string, scopes: string[]) {
+    super(403, 'MISSING_SCOPE', `${feature} needs more Twitch permissions`, {
+      feature,
+      scopes,
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import type { Streamer } from './streamer';
+
+// Events pushed to clients on the followed streams event stream
+export type FollowedStreamEvent =
+  // Every live followed stream, sent first on every (re)connect. `hidden`
+  // counts the ones the user's content filters left out
+  | { type: 'snapshot'; streams: Streamer[]; hidden?: number }
+  | { type: 'stream.online'; stream: Streamer }
+  | { type: 'stream.offline'; channelId: string; loginName: string }
+  // Changes carry the whole stream, so content filters can judge it again
+  | {
+      type: 'stream.title_changed';
+      channelId: string;
+      title: string;
+      stream: Streamer;
+    }
+  | {
+      type: 'stream.game_changed';
+      channelId: string;
+      gameId: string | null;
+      gameName: string;
+      stream: Streamer;
+    }
+  // Viewer counts of every live followed stream, keyed by channel id
+  | { type: 'viewers'; viewers: Record<string, number> }
+  | { type: 'error'; code?: string; message: string };
@@ -0,0 +1,13 @@
+export interface BoxArt {
+  small: string;
+  medium: string;
+  large: string;
+}
+
+export interface Game {
+  id: string;
+  name: string;
+  boxArt: BoxArt;
+  // Missing for categories Twitch hasn't linked to IGDB
+  igdbId: string | null;
+}
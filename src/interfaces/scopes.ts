@@ -0,0 +1,12 @@
+// Features that act on the user's behalf and need Twitch scopes to do so
+export type ScopedFeature = 'followedStreams' | 'chatRelay' | 'chatSend';
+
+export interface FeatureScopes {
+  required: string[];
+  missing: string[];
+}
+
+export interface ScopeStatus {
+  granted: string[];
+  features: Record<ScopedFeature, FeatureScopes>;
+}
@@ -0,0 +1,10 @@
+export interface DeviceSession {
+  id: string;
+  platform: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  // Whether this is the session making the request
+  current: boolean;
+}
@@ -0,0 +1,50 @@
+export type OverlayAnchor =
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+// The first synced format, chat options were flat
+export interface OverlaySettingsV1 {
+  version: 1;
+  theme: 'dark' | 'light' | 'system';
+  opacity: number;
+  scale: number;
+  position: {
+    anchor: OverlayAnchor;
+    offsetX: number;
+    offsetY: number;
+  };
+  streams: {
+    showViewerCount: boolean;
+    showGame: boolean;
+    maxVisible: number;
+  };
+  showChat: boolean;
+  chatFontSize: number;
+}
+
+export interface OverlaySettingsV2 {
+  version: 2;
+  theme: 'dark' | 'light' | 'system';
+  opacity: number;
+  scale: number;
+  position: {
+    anchor: OverlayAnchor;
+    offsetX: number;
+    offsetY: number;
+  };
+  streams: {
+    showViewerCount: boolean;
+    showGame: boolean;
+    maxVisible: number;
+  };
+  chat: {
+    enabled: boolean;
+    fontSize: number;
+    showBadges: boolean;
+    showEmotes: boolean;
+  };
+}
+
+export type OverlaySettings = OverlaySettingsV2;
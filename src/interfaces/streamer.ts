@@ -1,10 +1,29 @@
+export interface StreamThumbnails {
+  small: string;
+  medium: string;
+  large: string;
+}
+
 export interface Streamer {
   channelId: string;
   displayName: string;
   loginName: string;
   profileImageUrl: string;
   title: string;
+  gameId: string;
   gameName: string;
   viewers: number;
   isLive: boolean;
+  // Set on listings for signed in users when the channel is in their favorites
+  isPinned?: boolean;
+  // '', 'affiliate' or 'partner'
+  broadcasterType: string;
+  offlineImageUrl: string;
+  language: string;
+  tags: string[];
+  // Live streams only, the rest are null or false while offline
+  startedAt: string | null;
+  uptimeSeconds: number | null;
+  thumbnails: StreamThumbnails | null;
+  isMature: boolean;
 }
@@ -0,0 +1,18 @@
+import type { StreamThumbnails } from './streamer';
+
+export type VideoType = 'archive' | 'highlight' | 'upload';
+
+export interface Video {
+  id: string;
+  type: VideoType;
+  url: string;
+  title: string;
+  description: string;
+  language: string;
+  viewCount: number;
+  durationSeconds: number;
+  // Null while Twitch is still processing the video
+  thumbnails: StreamThumbnails | null;
+  createdAt: string;
+  publishedAt: string;
+}
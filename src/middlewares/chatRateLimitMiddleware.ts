@@ -0,0 +1,28 @@
+import { rateLimiter, type Store } from 'hono-rate-limiter';
+import { RedisStore } from 'rate-limit-redis';
+import { ChatRateLimitError } from '../interfaces/errors';
+import redisClient from '../redisClient';
+import { auth } from '../utils/auth';
+
+type ChatSendEnv = {
+  Variables: {
+    user: typeof auth.$Infer.Session.user;
+  };
+};
+
+// Twitch's limit for regular chatters is 20 messages per 30 seconds
+export const chatRateLimitMiddleware = rateLimiter<ChatSendEnv>({
+  windowMs: 30 * 1000, // 30 seconds
+  limit: 20,
+  standardHeaders: true,
+  // Per user and channel, so a busy chat doesn't block replying elsewhere
+  keyGenerator: (c) =>
+    `${c.get('user').id}:${c.req.param('name')?.toLowerCase()}`,
+  handler: () => {
+    throw new ChatRateLimitError();
+  },
+  store: new RedisStore({
+    prefix: 'chat-send:',
+    sendCommand: (...args) => redisClient.sendCommand(args),
+  }) as unknown as Store<ChatSendEnv>,
+});
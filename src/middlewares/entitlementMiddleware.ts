@@ -0,0 +1,27 @@
+import { createMiddleware } from 'hono/factory';
+import { auth } from '../utils/auth';
+import {
+  AuthenticationError,
+  EntitlementRequiredError,
+} from '../interfaces/errors';
+import type { Feature } from '../interfaces/entitlements';
+import { getEntitlements } from '../utils/entitlements';
+
+export const requireEntitlement = (feature: Feature) =>
+  createMiddleware<{
+    Variables: {
+      user: typeof auth.$Infer.Session.user;
+    };
+  }>(async (c, next) => {
+    const user = c.get('user');
+
+    if (!user) throw new AuthenticationError();
+
+    const entitlements = await getEntitlements(user.id);
+
+    if (!entitlements.features.includes(feature)) {
+      throw new EntitlementRequiredError(feature, entitlements.tier !== 'free');
+    }
+
+    await next();
+  });
@@ -0,0 +1,24 @@
+import { createMiddleware } from 'hono/factory';
+import { auth } from '../utils/auth';
+import { AuthenticationError, MissingScopeError } from '../interfaces/errors';
+import type { ScopedFeature } from '../interfaces/scopes';
+import { getGrantedScopes, missingScopes } from '../utils/scopes';
+
+export const requireScopes = (feature: ScopedFeature) =>
+  createMiddleware<{
+    Variables: {
+      user: typeof auth.$Infer.Session.user;
+    };
+  }>(async (c, next) => {
+    const user = c.get('user');
+
+    if (!user) throw new AuthenticationError();
+
+    const missing = missingScopes(feature, await getGrantedScopes(user.id));
+
+    if (missing.length > 0) {
+      throw new MissingScopeError(feature, missing);
+    }
+
+    await next();
+  });
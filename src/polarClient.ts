@@ -0,0 +1,8 @@
+import { Polar } from '@polar-sh/sdk';
+
+const polarClient = new Polar({
+  accessToken: process.env.POLAR_ACCESS_TOKEN,
+  server: process.env.NODE_ENV === 'production' ? 'production' : 'sandbox',
+});
+
+export default polarClient;
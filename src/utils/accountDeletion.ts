@@ -0,0 +1,148 @@
+import { ResourceNotFound } from '@polar-sh/sdk/models/errors/resourcenotfound.js';
+import type { AccountDeletion } from '../interfaces/accountDeletion';
+import {
+  NotFoundError,
+  ReauthenticationRequiredError,
+} from '../interfaces/errors';
+import polarClient from '../polarClient';
+import prisma from '../prismaClient';
+import { invalidateCached } from './cache';
+import { tryAcquireLock } from './redisLock';
+import { revokeToken } from './twitchApi';
+import { getValidUserToken } from './userTokens';
+
+const GRACE_PERIOD = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+const SWEEP_INTERVAL = 60 * 60 * 1000; // 1 hour in milliseconds
+const SWEEP_LOCK_TTL = 30 * 60 * 1000; // 30 minutes in milliseconds
+
+interface StoredDeletion {
+  scheduledFor: Date;
+  createdAt: Date;
+}
+
+const toAccountDeletion = (deletion: StoredDeletion): AccountDeletion => ({
+  requestedAt: deletion.createdAt.toISOString(),
+  scheduledFor: deletion.scheduledFor.toISOString(),
+});
+
+export async function getAccountDeletion(userId: string) {
+  const deletion = await prisma.accountDeletion.findUnique({
+    where: { userId },
+  });
+
+  return deletion ? toAccountDeletion(deletion) : null;
+}
+
+/**
+ * Schedules the user's account for deletion once the grace period is over.
+ * Asking again keeps the original schedule.
+ */
+export async function requestAccountDeletion(userId: string) {
+  const deletion = await prisma.accountDeletion.upsert({
+    where: { userId },
+    create: { userId, scheduledFor: new Date(Date.now() + GRACE_PERIOD) },
+    update: {},
+  });
+
+  return toAccountDeletion(deletion);
+}
+
+/**
+ * Cancels a scheduled deletion, returns false if none was scheduled.
+ */
+export async function cancelAccountDeletion(userId: string) {
+  const { count } = await prisma.accountDeletion.deleteMany({
+    where: { userId },
+  });
+
+  return count > 0;
+}
+
+async function revokeTwitchTokens(userId: string) {
+  let token;
+
+  try {
+    // Twitch only revokes access tokens, so an expired one is refreshed first
+    token = await getValidUserToken(userId);
+  } catch (err) {
+    // No Twitch account or no tokens left, there's no grant to revoke
+    if (
+      err instanceof NotFoundError ||
+      err instanceof ReauthenticationRequiredError
+    ) {
+      return;
+    }
+    throw err;
+  }
+
+  await revokeToken(token.accessToken);
+}
+
+async function deletePolarCustomer(userId: string) {
+  try {
+    // Also cancels the customer's subscriptions and revokes their benefits
+    await polarClient.customers.deleteExternal({ externalId: userId });
+  } catch (err) {
+    // Never became a customer, or already deleted
+    if (err instanceof ResourceNotFound) return;
+    throw err;
+  }
+}
+
+/**
+ * Deletes the user for good: their Twitch tokens are revoked, their Polar
+ * customer deleted and their row removed, which cascades to everything else
+ * we store about them.
+ */
+export async function deleteAccount(userId: string) {
+  await revokeTwitchTokens(userId);
+  await deletePolarCustomer(userId);
+
+  await prisma.user.delete({ where: { id: userId } });
+
+  await Promise.all([
+    invalidateCached(`entitlements:${userId}`),
+    invalidateCached(`content-filters:${userId}`),
+  ]);
+}
+
+/**
+ * Deletes the accounts whose grace period is over. Only one instance sweeps
+ * at a time, the others skip.
+ */
+export async function deleteDueAccounts() {
+  const release = await tryAcquireLock(
+    'account-deletion-sweep',
+    SWEEP_LOCK_TTL,
+  );
+  if (!release) return;
+
+  try {
+    const due: { userId: string }[] = await prisma.accountDeletion.findMany({
+      where: { scheduledFor: { lte: new Date() } },
+      select: { userId: true },
+    });
+
+    for (const { userId } of due) {
+      // A failure is retried on the next sweep
+      await deleteAccount(userId).catch((err) =>
+        console.error(`Failed to delete account of ${userId}`, err),
+      );
+    }
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Deletes due accounts now and every hour after that.
+ */
+export function startAccountDeletionSweep() {
+  const sweep = () =>
+    deleteDueAccounts().catch((err) =>
+      console.error('Failed to delete due accounts', err),
+    );
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL);
+}
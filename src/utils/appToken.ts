@@ -0,0 +1,197 @@
+import { HTTPException } from 'hono/http-exception';
+import redisClient from '../redisClient';
+import { helix } from './helixClient';
+import { tryAcquireLock } from './redisLock';
+
+const APP_TOKEN_KEY = 'twitch:app-token';
+const MAX_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+const EXPIRY_BUFFER = 60 * 1000; // 60 seconds in milliseconds
+// How long this process trusts its copy before checking Redis again
+const LOCAL_CACHE_DURATION = 60 * 1000; // 60 seconds in milliseconds
+const REFRESH_LOCK_TTL = 10 * 1000; // 10 seconds in milliseconds
+const LOCK_POLL_INTERVAL = 200; // milliseconds
+
+// Only deletes the stored token if it is the one that was rejected, so a
+// token another instance just fetched is left alone
+const INVALIDATE_SCRIPT = `
+if redis.call("hget", KEYS[1], "access_token") == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+export interface TwitchTokenResponse {
+  access_token: string;
+  expires_in: number;
+  token_type: string;
+}
+
+interface StoredAppToken extends TwitchTokenResponse {
+  // Already shortened by EXPIRY_BUFFER
+  expiresAt: number;
+}
+
+let localToken: StoredAppToken | null = null;
+let localTokenCheckedUntil = 0;
+let loading: Promise<StoredAppToken> | null = null;
+// Tokens this process replaced, which requests in flight may still be using
+const replacedTokens = new Set<string>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function cacheLocally(token: StoredAppToken) {
+  localToken = token;
+  localTokenCheckedUntil = Math.min(
+    Date.now() + LOCAL_CACHE_DURATION,
+    token.expiresAt,
+  );
+  return token;
+}
+
+async function readStoredToken(): Promise<StoredAppToken | null> {
+  const stored = await redisClient.hGetAll(APP_TOKEN_KEY);
+
+  if (!stored.access_token || Number(stored.expiresAt) <= Date.now()) {
+    return null;
+  }
+
+  return {
+    access_token: stored.access_token,
+    expires_in: Number(stored.expires_in),
+    token_type: stored.token_type,
+    expiresAt: Number(stored.expiresAt),
+  };
+}
+
+async function requestAppToken(): Promise<StoredAppToken> {
+  const response = await fetch('https://id.twitch.tv/oauth2/token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      client_id: process.env['TWITCH_CLIENT_ID']!,
+      client_secret: process.env['TWITCH_CLIENT_SECRET']!,
+      grant_type: 'client_credentials',
+    }),
+  });
+
+  if (!response.ok) {
+    throw new HTTPException(500, {
+      message: `Failed to fetch Twitch token: ${response.statusText}`,
+    });
+  }
+
+  const data = (await response.json()) as TwitchTokenResponse;
+
+  const expiresInMs = Math.min(data.expires_in * 1000, MAX_CACHE_DURATION);
+
+  return {
+    access_token: data.access_token,
+    expires_in: data.expires_in,
+    token_type: data.token_type,
+    expiresAt: Date.now() + expiresInMs - EXPIRY_BUFFER,
+  };
+}
+
+async function loadAppToken() {
+  const stored = await readStoredToken();
+  if (stored) return cacheLocally(stored);
+
+  const release = await tryAcquireLock(
+    'twitch-app-token-refresh',
+    REFRESH_LOCK_TTL,
+  );
+
+  // Another instance is fetching the token, wait for it to show up in Redis
+  if (!release) {
+    const deadline = Date.now() + REFRESH_LOCK_TTL;
+
+    while (Date.now() < deadline) {
+      await sleep(LOCK_POLL_INTERVAL);
+
+      const fetched = await readStoredToken();
+      if (fetched) return cacheLocally(fetched);
+    }
+
+    throw new HTTPException(503, {
+      message: 'Timed out waiting for Twitch token refresh',
+    });
+  }
+
+  try {
+    const fetched = await readStoredToken();
+    if (fetched) return cacheLocally(fetched);
+
+    const token = await requestAppToken();
+
+    await redisClient
+      .multi()
+      .hSet(APP_TOKEN_KEY, {
+        access_token: token.access_token,
+        expires_in: token.expires_in,
+        token_type: token.token_type,
+        expiresAt: token.expiresAt,
+      })
+      .pExpireAt(APP_TOKEN_KEY, token.expiresAt)
+      .exec();
+
+    return cacheLocally(token);
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Returns the app (client credentials) access token shared by all server
+ * instances, fetching a new one if it is missing or about to expire.
+ */
+export async function getAppToken(): Promise<TwitchTokenResponse> {
+  if (localToken && Date.now() < localTokenCheckedUntil) {
+    return localToken;
+  }
+
+  if (!loading) {
+    loading = loadAppToken().finally(() => {
+      loading = null;
+    });
+  }
+
+  return loading;
+}
+
+/**
+ * Forgets an app token Twitch rejected, here and in Redis.
+ */
+export async function invalidateAppToken(accessToken: string) {
+  if (localToken?.access_token === accessToken) {
+    localToken = null;
+    localTokenCheckedUntil = 0;
+  }
+
+  await redisClient.eval(INVALIDATE_SCRIPT, {
+    keys: [APP_TOKEN_KEY],
+    arguments: [accessToken],
+  });
+}
+
+async function isAppToken(accessToken: string) {
+  if (localToken?.access_token === accessToken) return true;
+  if (replacedTokens.has(accessToken)) return true;
+
+  const stored = await redisClient.hGet(APP_TOKEN_KEY, 'access_token');
+  return stored === accessToken;
+}
+
+// Helix 401s for the app token mean it was revoked early: fetch a new one
+helix.onUnauthorized(async (accessToken) => {
+  if (!(await isAppToken(accessToken))) return null;
+
+  if (replacedTokens.size > 10) replacedTokens.clear();
+  replacedTokens.add(accessToken);
+
+  await invalidateAppToken(accessToken);
+  const { access_token } = await getAppToken();
+
+  return access_token;
+});
@@ -1,15 +1,29 @@
 import { betterAuth } from 'better-auth';
 import { prismaAdapter } from 'better-auth/adapters/prisma';
-import { createAuthMiddleware, bearer } from 'better-auth/plugins';
+import {
+  createAuthMiddleware,
+  bearer,
+  deviceAuthorization,
+} from 'better-auth/plugins';
 import { polar, checkout, portal } from '@alexdelia/polar-betterauth';
-import { Polar } from '@polar-sh/sdk';
 
 import prisma from '../prismaClient';
+import polarClient from '../polarClient';
+import {
+  getOAuthPlatform,
+  normalizePlatform,
+  rememberOAuthPlatform,
+} from './sessions';
 
-const client = new Polar({
-  accessToken: process.env.POLAR_ACCESS_TOKEN,
-  server: process.env.NODE_ENV === 'production' ? 'production' : 'sandbox',
-});
+// Where users are sent back to after granting more scopes, see `scopes.ts`
+export const CONSENT_CALLBACK_URLS = [
+  'twitchoverlayapp://consent',
+  'twitchoverlayappnative://consent',
+];
+
+// Web page where users enter and approve device sign in codes, apps that
+// can't take a deep link (e.g. Overwolf) sign in through it
+export const DEVICE_VERIFICATION_URL = process.env.DEVICE_VERIFICATION_URL;
 
 export const auth = betterAuth({
   appName: 'Twitch Overlay',
@@ -25,8 +39,18 @@ export const auth = betterAuth({
   },
   plugins: [
     bearer(),
+    // Codes would point users at a page that doesn't exist without it
+    ...(DEVICE_VERIFICATION_URL
+      ? [
+          deviceAuthorization({
+            expiresIn: '10m',
+            // Polling faster than this is answered with slow_down
+            interval: '5s',
+          }),
+        ]
+      : []),
     polar({
-      client,
+      client: polarClient,
       createCustomerOnSignUp: true,
       use: [
         checkout({
@@ -59,18 +83,72 @@ export const auth = betterAuth({
     'overwolf-extension://mgkhoiaggpkcfjamphcneeffdgifjgbhafllgdib',
     'twitchoverlayappnative://callback',
     'twitchoverlayappnative://error',
+    ...CONSENT_CALLBACK_URLS,
+    ...(DEVICE_VERIFICATION_URL
+      ? [new URL(DEVICE_VERIFICATION_URL).origin]
+      : []),
   ],
   session: {
     cookieCache: {
       enabled: true,
       maxAge: 5 * 60,
     },
+    additionalFields: {
+      platform: { type: 'string', required: false, input: false },
+      lastSeenAt: { type: 'date', required: false, input: false },
+    },
+  },
+  databaseHooks: {
+    session: {
+      create: {
+        before: async (session, ctx) => {
+          let platform = normalizePlatform(ctx?.headers?.get('x-platform'));
+
+          // OAuth callbacks come from the browser, use the platform that
+          // started the sign in
+          const state = ctx?.query?.state;
+          if (!platform && typeof state === 'string') {
+            platform = await getOAuthPlatform(state);
+          }
+
+          return {
+            data: { ...session, platform, lastSeenAt: new Date() },
+          };
+        },
+      },
+    },
   },
   hooks: {
     after: createAuthMiddleware(async (ctx) => {
+      if (ctx.path === '/sign-in/social') {
+        const returned = ctx.context.returned as { url?: string } | undefined;
+        const state =
+          returned?.url && new URL(returned.url).searchParams.get('state');
+
+        if (state) {
+          await rememberOAuthPlatform(
+            state,
+            normalizePlatform(ctx.headers?.get('x-platform')),
+          );
+        }
+        return;
+      }
+
       if (ctx.path.startsWith('/callback')) {
         const location = ctx.context.responseHeaders?.get('location');
 
+        // Re-consent only updates the existing account, there's no new session
+        if (location && CONSENT_CALLBACK_URLS.includes(location)) return;
+
+        // Signing in to approve a device code keeps the browser's cookie
+        // session instead of handing the token to an app
+        if (
+          DEVICE_VERIFICATION_URL &&
+          location?.startsWith(DEVICE_VERIFICATION_URL)
+        ) {
+          return;
+        }
+
         if (ctx.context.newSession) {
           if (location === 'twitchoverlayappnative://callback') {
             throw ctx.redirect(
@@ -0,0 +1,55 @@
+import type { BadgeMap } from '../interfaces/badge';
+import { cached } from './cache';
+import {
+  fetchChannelBadges,
+  fetchGlobalBadges,
+  type BadgeData,
+} from './twitchApi';
+
+const GLOBAL_BADGES_TTL = 24 * 60 * 60; // 24 hours in seconds
+const CHANNEL_BADGES_TTL = 60 * 60; // 1 hour in seconds
+
+function toBadgeMap(badgeSets: BadgeData[]) {
+  const badges: BadgeMap = {};
+
+  for (const badgeSet of badgeSets) {
+    for (const version of badgeSet.versions) {
+      badges[`${badgeSet.set_id}/${version.id}`] = {
+        setId: badgeSet.set_id,
+        version: version.id,
+        title: version.title,
+        imageUrl1x: version.image_url_1x,
+        imageUrl2x: version.image_url_2x,
+        imageUrl4x: version.image_url_4x,
+      };
+    }
+  }
+
+  return badges;
+}
+
+/**
+ * Returns the badges usable in a channel's chat, with the channel's own
+ * badges (subscriber, bits, ...) overriding global ones of the same version.
+ */
+export async function getChannelBadgeMap({
+  broadcasterId,
+  accessToken,
+}: {
+  broadcasterId: string;
+  accessToken: string;
+}): Promise<BadgeMap> {
+  const [globalBadges, channelBadges] = await Promise.all([
+    cached('badges:global', GLOBAL_BADGES_TTL, async () =>
+      toBadgeMap(await fetchGlobalBadges({ accessToken })),
+    ),
+    cached(`badges:channel:${broadcasterId}`, CHANNEL_BADGES_TTL, async () =>
+      toBadgeMap(await fetchChannelBadges({ broadcasterId, accessToken })),
+    ),
+  ]);
+
+  return {
+    ...globalBadges,
+    ...channelBadges,
+  };
+}
@@ -0,0 +1,115 @@
+import redisClient from '../redisClient';
+
+// How long an expired entry is kept around as a fallback for upstream errors
+const STALE_RETENTION = 24 * 60 * 60; // 24 hours in seconds
+// How long a request waits on a refresh before falling back to a stale entry
+const REFRESH_TIMEOUT = 3 * 1000; // 3 seconds in milliseconds
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  // Set when the refresh failed or timed out and an expired entry was served
+  stale: boolean;
+}
+
+// Refreshes in flight in this process, so concurrent misses share one load
+const inFlight = new Map<string, Promise<unknown>>();
+
+function refresh<T>(key: string, ttlSeconds: number, load: () => Promise<T>) {
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const loading = (async () => {
+    try {
+      const value = await load();
+      const entry: CacheEntry<T> = {
+        value,
+        expiresAt: Date.now() + ttlSeconds * 1000,
+      };
+
+      await redisClient.set(`cache:${key}`, JSON.stringify(entry), {
+        expiration: { type: 'EX', value: ttlSeconds + STALE_RETENTION },
+      });
+
+      return value;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, loading);
+  return loading;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number) {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Cache refresh timed out after ${ms}ms`)),
+      ms,
+    );
+
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+/**
+ * Returns the JSON value cached under `key`, loading and caching it for
+ * `ttlSeconds` when it is missing or expired.
+ *
+ * Concurrent misses share a single load. If refreshing an expired entry fails
+ * or takes too long, the expired value is served with `stale: true` while the
+ * refresh keeps running in the background.
+ */
+export async function cachedWithStale<T>(
+  key: string,
+  ttlSeconds: number,
+  load: () => Promise<T>,
+): Promise<CacheResult<T>> {
+  const hit = await redisClient.get(`cache:${key}`);
+  const entry = hit !== null ? (JSON.parse(hit) as CacheEntry<T>) : null;
+
+  if (entry && entry.expiresAt > Date.now()) {
+    return { value: entry.value, stale: false };
+  }
+
+  if (!entry) {
+    return { value: await refresh(key, ttlSeconds, load), stale: false };
+  }
+
+  const refreshing = refresh(key, ttlSeconds, load);
+
+  try {
+    return {
+      value: await withTimeout(refreshing, REFRESH_TIMEOUT),
+      stale: false,
+    };
+  } catch (err) {
+    console.error(`Serving stale cache entry for ${key}: ${err}`);
+    // Keep the background refresh from surfacing as an unhandled rejection
+    refreshing.catch(() => {});
+
+    return { value: entry.value, stale: true };
+  }
+}
+
+/**
+ * Returns the JSON value cached under `key`, loading and caching it for
+ * `ttlSeconds` on a miss.
+ */
+export async function cached<T>(
+  key: string,
+  ttlSeconds: number,
+  load: () => Promise<T>,
+): Promise<T> {
+  const { value } = await cachedWithStale(key, ttlSeconds, load);
+  return value;
+}
+
+// Drops a cached value so the next lookup loads it again
+export async function invalidateCached(key: string) {
+  await redisClient.del(`cache:${key}`);
+}
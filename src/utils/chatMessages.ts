@@ -0,0 +1,57 @@
+import {
+  ChatMessageDroppedError,
+  ChatNotAllowedError,
+  TwitchApiError,
+} from '../interfaces/errors';
+import { sendChatMessage } from './twitchApi';
+import { withUserToken } from './userTokens';
+
+// Twitch's own limit on chat message length
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+/**
+ * Sends a chat message to a channel as the user, optionally as a reply.
+ *
+ * Messages Twitch refuses to deliver throw a ChatMessageDroppedError with
+ * Twitch's drop reason.
+ */
+export async function sendChatMessageAs({
+  userId,
+  broadcasterId,
+  message,
+  replyParentMessageId,
+}: {
+  userId: string;
+  broadcasterId: string;
+  message: string;
+  replyParentMessageId?: string;
+}) {
+  let sent;
+
+  try {
+    sent = await withUserToken(userId, (token) =>
+      sendChatMessage({
+        broadcasterId,
+        senderId: token.accountId,
+        message,
+        replyParentMessageId,
+        accessToken: token.accessToken,
+      }),
+    );
+  } catch (err) {
+    // Banned, timed out or otherwise not allowed to chat there
+    if (err instanceof TwitchApiError && err.upstreamStatus === 403) {
+      throw new ChatNotAllowedError();
+    }
+    throw err;
+  }
+
+  if (!sent.is_sent) {
+    throw new ChatMessageDroppedError(
+      sent.drop_reason?.code ?? 'unknown',
+      sent.drop_reason?.message ?? 'Twitch did not send the message',
+    );
+  }
+
+  return { messageId: sent.message_id };
+}
@@ -0,0 +1,327 @@
+import type { ChatMessageEvent, ChatServerMessage } from '../interfaces/chat';
+import { NotFoundError } from '../interfaces/errors';
+import { EventSubSession, type EventSubSubscriptionPayload } from './eventSub';
+import {
+  deleteEventSubSubscription,
+  fetchUserData,
+  subscribeToChat,
+} from './twitchApi';
+import { getValidUserToken } from './userTokens';
+
+export interface ChatListener {
+  send: (message: ChatServerMessage) => void;
+}
+
+// The user whose Twitch token reads a channel's chat upstream
+export interface ChatReader {
+  userId: string;
+  twitchUserId: string;
+}
+
+interface ChannelRelay {
+  broadcasterId: string;
+  login: string;
+  listeners: Map<ChatListener, ChatReader>;
+  reader: ChatReader;
+  subscriptionId: string | null;
+  pending: Promise<void> | null;
+}
+
+/**
+ * Fans Twitch `channel.chat.message` notifications out to overlay clients.
+ *
+ * Every channel has at most one upstream EventSub subscription, no matter how
+ * many clients listen to it. The subscription is created with the token of
+ * the first listener (the channel's reader) on an EventSub session owned by
+ * that reader, handed over to another listener when the reader leaves, and
+ * deleted once the last listener leaves.
+ */
+class ChatRelay {
+  // Keyed by broadcaster id
+  private channels = new Map<string, ChannelRelay>();
+  // Keyed by the reader's Twitch user id
+  private sessions = new Map<string, EventSubSession>();
+
+  async subscribe(listener: ChatListener, login: string, reader: ChatReader) {
+    const { accessToken } = await getValidUserToken(reader.userId);
+    const broadcaster = await fetchUserData({
+      loginName: login,
+      accessToken,
+    });
+
+    if (!broadcaster) {
+      throw new NotFoundError('Broadcaster not found');
+    }
+
+    const existing = this.channels.get(broadcaster.id);
+
+    if (existing) {
+      existing.listeners.set(listener, reader);
+      await existing.pending;
+
+      if (this.channels.get(broadcaster.id) !== existing) {
+        throw new Error(`Failed to subscribe to chat for ${existing.login}`);
+      }
+
+      return existing.login;
+    }
+
+    const channel: ChannelRelay = {
+      broadcasterId: broadcaster.id,
+      login: broadcaster.login,
+      listeners: new Map([[listener, reader]]),
+      reader,
+      subscriptionId: null,
+      pending: null,
+    };
+    this.channels.set(broadcaster.id, channel);
+
+    try {
+      await this.connect(channel);
+    } catch (err) {
+      this.drop(channel);
+      throw err;
+    }
+
+    return channel.login;
+  }
+
+  async unsubscribe(listener: ChatListener, login: string) {
+    const channel = this.findByLogin(login);
+    if (!channel || !channel.listeners.delete(listener)) return;
+
+    if (channel.listeners.size === 0) {
+      await this.teardown(channel);
+      return;
+    }
+
+    await this.handOver(channel);
+  }
+
+  // Called when a client disconnects
+  async removeListener(listener: ChatListener) {
+    const channels = [...this.channels.values()].filter((channel) =>
+      channel.listeners.has(listener),
+    );
+
+    await Promise.all(
+      channels.map((channel) => this.unsubscribe(listener, channel.login)),
+    );
+  }
+
+  private findByLogin(login: string) {
+    const normalized = login.toLowerCase();
+
+    return [...this.channels.values()].find(
+      (channel) => channel.login === normalized,
+    );
+  }
+
+  private connect(channel: ChannelRelay) {
+    const upstream = this.createUpstream(channel);
+    // Listeners joining mid-subscribe only wait on this, the caller of
+    // connect() is the one that handles failures
+    channel.pending = upstream.then(
+      () => {},
+      () => {},
+    );
+
+    return upstream;
+  }
+
+  private async createUpstream(channel: ChannelRelay) {
+    const { reader } = channel;
+    const sessionId = await this.getSession(reader.twitchUserId).getSessionId();
+    const { accessToken } = await getValidUserToken(reader.userId);
+
+    const subscription = await subscribeToChat({
+      userId: reader.twitchUserId,
+      broadcasterId: channel.broadcasterId,
+      accessToken,
+      sessionId,
+    });
+
+    // Everyone may have left while we were subscribing
+    if (this.channels.get(channel.broadcasterId) !== channel) {
+      await deleteEventSubSubscription({
+        subscriptionId: subscription.id,
+        accessToken,
+      });
+      return;
+    }
+
+    channel.subscriptionId = subscription.id;
+  }
+
+  private async teardown(channel: ChannelRelay) {
+    this.channels.delete(channel.broadcasterId);
+
+    await channel.pending;
+
+    if (channel.subscriptionId) {
+      const { subscriptionId } = channel;
+      await getValidUserToken(channel.reader.userId)
+        .then(({ accessToken }) =>
+          deleteEventSubSubscription({ subscriptionId, accessToken }),
+        )
+        .catch((err) =>
+          console.error(`Failed to unsubscribe from ${channel.login}`, err),
+        );
+      channel.subscriptionId = null;
+    }
+
+    this.releaseSession(channel.reader.twitchUserId);
+  }
+
+  // Moves the upstream subscription to another listener's token once the
+  // reader has no clients left on the channel, so it doesn't keep running on
+  // the token of someone who left or signed out
+  private async handOver(channel: ChannelRelay) {
+    const previous = channel.reader;
+    const nextReader = () =>
+      [...channel.listeners.values()].find(
+        (reader) => reader.twitchUserId !== previous.twitchUserId,
+      );
+    const stillReading = () =>
+      [...channel.listeners.values()].some(
+        (reader) => reader.twitchUserId === previous.twitchUserId,
+      );
+
+    if (stillReading()) return;
+
+    await channel.pending;
+
+    // Torn down, handed over or rejoined by the reader while we waited
+    const reader = nextReader();
+    if (
+      this.channels.get(channel.broadcasterId) !== channel ||
+      channel.reader !== previous ||
+      stillReading() ||
+      !reader
+    ) {
+      return;
+    }
+
+    const { subscriptionId } = channel;
+    channel.subscriptionId = null;
+    channel.reader = reader;
+
+    if (subscriptionId) {
+      await getValidUserToken(previous.userId)
+        .then(({ accessToken }) =>
+          deleteEventSubSubscription({ subscriptionId, accessToken }),
+        )
+        .catch((err) =>
+          console.error(`Failed to unsubscribe from ${channel.login}`, err),
+        );
+    }
+
+    this.releaseSession(previous.twitchUserId);
+    this.resubscribe(channel);
+  }
+
+  // Removes a channel, telling its listeners why if there is a message
+  private drop(channel: ChannelRelay, message?: string) {
+    if (this.channels.get(channel.broadcasterId) === channel) {
+      this.channels.delete(channel.broadcasterId);
+    }
+
+    if (message) {
+      for (const listener of channel.listeners.keys()) {
+        listener.send({ type: 'error', channel: channel.login, message });
+      }
+    }
+    channel.listeners.clear();
+
+    this.releaseSession(channel.reader.twitchUserId);
+  }
+
+  private getSession(readerId: string) {
+    let session = this.sessions.get(readerId);
+
+    if (!session) {
+      session = new EventSubSession({
+        onNotification: (subscription, event) =>
+          this.handleNotification(subscription, event),
+        onRevocation: (subscription) => this.handleRevocation(subscription),
+        onReset: () => this.handleReset(readerId),
+      });
+      this.sessions.set(readerId, session);
+    }
+
+    return session;
+  }
+
+  private releaseSession(readerId: string) {
+    const inUse = [...this.channels.values()].some(
+      (channel) => channel.reader.twitchUserId === readerId,
+    );
+    if (inUse) return;
+
+    this.sessions.get(readerId)?.close();
+    this.sessions.delete(readerId);
+  }
+
+  private handleNotification(
+    subscription: EventSubSubscriptionPayload,
+    event: unknown,
+  ) {
+    if (subscription.type !== 'channel.chat.message') return;
+
+    const channel = this.channels.get(
+      subscription.condition.broadcaster_user_id,
+    );
+    if (!channel) return;
+
+    for (const listener of channel.listeners.keys()) {
+      listener.send({
+        type: 'message',
+        channel: channel.login,
+        event: event as ChatMessageEvent,
+      });
+    }
+  }
+
+  private handleRevocation(subscription: EventSubSubscriptionPayload) {
+    const channel = this.channels.get(
+      subscription.condition.broadcaster_user_id,
+    );
+    if (!channel || channel.subscriptionId !== subscription.id) return;
+
+    channel.subscriptionId = null;
+
+    // Hand the channel over to another listener's token if there is one
+    const previousReaderId = channel.reader.twitchUserId;
+    const nextReader = [...channel.listeners.values()].find(
+      (reader) => reader.twitchUserId !== previousReaderId,
+    );
+
+    if (!nextReader) {
+      this.drop(channel, `Chat subscription revoked: ${subscription.status}`);
+      return;
+    }
+
+    channel.reader = nextReader;
+    this.releaseSession(previousReaderId);
+    this.resubscribe(channel);
+  }
+
+  // A full reconnect loses every subscription of the old session
+  private handleReset(readerId: string) {
+    for (const channel of this.channels.values()) {
+      if (channel.reader.twitchUserId !== readerId) continue;
+
+      channel.subscriptionId = null;
+      this.resubscribe(channel);
+    }
+  }
+
+  private resubscribe(channel: ChannelRelay) {
+    this.connect(channel).catch((err) => {
+      console.error(`Failed to resubscribe to chat for ${channel.login}`, err);
+      this.drop(channel, 'Chat relay lost its subscription');
+    });
+  }
+}
+
+export const chatRelay = new ChatRelay();
@@ -0,0 +1,41 @@
+import { HTTPValidationError } from '@polar-sh/sdk/models/errors/httpvalidationerror.js';
+import { ResourceNotFound } from '@polar-sh/sdk/models/errors/resourcenotfound.js';
+import polarClient from '../polarClient';
+import prisma from '../prismaClient';
+
+export type CheckoutOutcome = 'succeeded' | 'pending' | 'failed';
+
+/**
+ * Works out whether a Polar checkout went through. Our webhook-synced orders
+ * are checked first, Polar itself only when the webhook hasn't arrived yet.
+ */
+export async function getCheckoutOutcome(
+  checkoutId: string,
+): Promise<CheckoutOutcome> {
+  const order = await prisma.polarOrder.findFirst({
+    where: { checkoutId, paid: true },
+    select: { id: true },
+  });
+
+  if (order) return 'succeeded';
+
+  let checkout;
+  try {
+    checkout = await polarClient.checkouts.get({ id: checkoutId });
+  } catch (err) {
+    // Unknown or malformed id, `/success` takes it straight from the query
+    if (err instanceof ResourceNotFound || err instanceof HTTPValidationError) {
+      return 'failed';
+    }
+    throw err;
+  }
+
+  switch (checkout.status) {
+    case 'succeeded':
+      return 'succeeded';
+    case 'confirmed':
+      return 'pending';
+    default:
+      return 'failed';
+  }
+}
@@ -0,0 +1,59 @@
+import type { Clip, ClipPeriod } from '../interfaces/clip';
+import { fetchClips, type ClipData } from './twitchApi';
+
+export const CLIP_PERIODS: Record<ClipPeriod, number | null> = {
+  '24h': 24 * 60 * 60 * 1000, // 24 hours in milliseconds
+  '7d': 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
+  '30d': 30 * 24 * 60 * 60 * 1000, // 30 days in milliseconds
+  all: null,
+};
+
+function buildClip(clipData: ClipData): Clip {
+  return {
+    id: clipData.id,
+    url: clipData.url,
+    embedUrl: clipData.embed_url,
+    title: clipData.title,
+    creatorName: clipData.creator_name,
+    gameId: clipData.game_id,
+    language: clipData.language,
+    viewCount: clipData.view_count,
+    durationSeconds: Math.round(clipData.duration),
+    thumbnailUrl: clipData.thumbnail_url,
+    createdAt: clipData.created_at,
+    videoId: clipData.video_id || null,
+    isFeatured: clipData.is_featured,
+  };
+}
+
+/**
+ * Returns a page of a channel's most viewed clips created within `period`.
+ */
+export async function getChannelClips({
+  broadcasterId,
+  period,
+  first,
+  after,
+  accessToken,
+}: {
+  broadcasterId: string;
+  period: ClipPeriod;
+  first: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const window = CLIP_PERIODS[period];
+  // Helix only looks a week past `started_at` unless `ended_at` is set
+  const now = Date.now();
+
+  const { data, cursor } = await fetchClips({
+    broadcasterId,
+    startedAt: window ? new Date(now - window).toISOString() : undefined,
+    endedAt: window ? new Date(now).toISOString() : undefined,
+    first,
+    after,
+    accessToken,
+  });
+
+  return { clips: data.map(buildClip), cursor };
+}
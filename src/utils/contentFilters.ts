@@ -0,0 +1,201 @@
+import type { ContentFilters } from '../interfaces/contentFilters';
+import { BadRequestError } from '../interfaces/errors';
+import type { FollowedStreamEvent } from '../interfaces/followedStreams';
+import type { Streamer } from '../interfaces/streamer';
+import prisma from '../prismaClient';
+import { cached, invalidateCached } from './cache';
+
+const CONTENT_FILTERS_TTL = 5 * 60; // 5 minutes in seconds
+const MAX_FILTER_ENTRIES = 500;
+
+const NO_FILTERS: ContentFilters = {
+  hideMature: false,
+  languages: [],
+  blockedChannelIds: [],
+  blockedGameIds: [],
+  mutedTags: [],
+};
+
+const LIST_FIELDS = [
+  'languages',
+  'blockedChannelIds',
+  'blockedGameIds',
+  'mutedTags',
+] as const;
+
+// Languages and tags are compared lowercase
+const CASE_INSENSITIVE_FIELDS: string[] = ['languages', 'mutedTags'];
+
+async function loadContentFilters(userId: string): Promise<ContentFilters> {
+  const stored = await prisma.contentFilter.findUnique({
+    where: { userId },
+  });
+
+  if (!stored) return NO_FILTERS;
+
+  return {
+    hideMature: stored.hideMature,
+    languages: stored.languages,
+    blockedChannelIds: stored.blockedChannelIds,
+    blockedGameIds: stored.blockedGameIds,
+    mutedTags: stored.mutedTags,
+  };
+}
+
+export function getContentFilters(userId: string) {
+  return cached(`content-filters:${userId}`, CONTENT_FILTERS_TTL, () =>
+    loadContentFilters(userId),
+  );
+}
+
+/**
+ * Validates and replaces the user's content filters.
+ */
+export async function saveContentFilters(userId: string, input: unknown) {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new BadRequestError('filters must be an object');
+  }
+
+  const body = input as Record<string, unknown>;
+
+  if (typeof body.hideMature !== 'boolean') {
+    throw new BadRequestError('hideMature must be a boolean');
+  }
+
+  const filters: ContentFilters = {
+    ...NO_FILTERS,
+    hideMature: body.hideMature,
+  };
+
+  for (const field of LIST_FIELDS) {
+    const value = body[field] ?? [];
+
+    if (
+      !Array.isArray(value) ||
+      !value.every((item) => typeof item === 'string' && item.trim())
+    ) {
+      throw new BadRequestError(`${field} must be an array of strings`);
+    }
+
+    if (value.length > MAX_FILTER_ENTRIES) {
+      throw new BadRequestError(
+        `${field} can't have more than ${MAX_FILTER_ENTRIES} entries`,
+      );
+    }
+
+    const normalized = value.map((item: string) =>
+      CASE_INSENSITIVE_FIELDS.includes(field)
+        ? item.trim().toLowerCase()
+        : item.trim(),
+    );
+    filters[field] = [...new Set(normalized)];
+  }
+
+  await prisma.contentFilter.upsert({
+    where: { userId },
+    create: { userId, ...filters },
+    update: filters,
+  });
+  await invalidateCached(`content-filters:${userId}`);
+
+  return filters;
+}
+
+export function isFilteredOut(streamer: Streamer, filters: ContentFilters) {
+  return (
+    (filters.hideMature && streamer.isMature) ||
+    (filters.languages.length > 0 &&
+      !!streamer.language &&
+      !filters.languages.includes(streamer.language.toLowerCase())) ||
+    filters.blockedChannelIds.includes(streamer.channelId) ||
+    (!!streamer.gameId && filters.blockedGameIds.includes(streamer.gameId)) ||
+    streamer.tags.some((tag) => filters.mutedTags.includes(tag.toLowerCase()))
+  );
+}
+
+/**
+ * Drops the streamers the user's content filters hide and counts them.
+ * Signed out users see everything.
+ */
+export async function applyContentFilters<T extends Streamer>(
+  userId: string | null | undefined,
+  streamers: T[],
+) {
+  if (!userId) return { streamers, hidden: 0 };
+
+  const filters = await getContentFilters(userId);
+  const visible = streamers.filter(
+    (streamer) => !isFilteredOut(streamer, filters),
+  );
+
+  return { streamers: visible, hidden: streamers.length - visible.length };
+}
+
+/**
+ * Returns a function that applies content filters to followed stream events.
+ * Channels are judged when they're first seen and again whenever they change,
+ * events for hidden channels are dropped and `null` is returned for them.
+ * A change that hides or reveals a channel is sent as it going offline or
+ * online, so clients end up with the same list `/channels/followed` returns.
+ */
+export function createStreamEventFilter(filters: ContentFilters) {
+  const hiddenChannelIds = new Set<string>();
+
+  const visible = (streamer: Streamer) => {
+    if (isFilteredOut(streamer, filters)) {
+      hiddenChannelIds.add(streamer.channelId);
+      return false;
+    }
+
+    hiddenChannelIds.delete(streamer.channelId);
+    return true;
+  };
+
+  return (event: FollowedStreamEvent): FollowedStreamEvent | null => {
+    switch (event.type) {
+      case 'snapshot': {
+        const streams = event.streams.filter(visible);
+
+        return {
+          ...event,
+          streams,
+          hidden: event.streams.length - streams.length,
+        };
+      }
+      case 'stream.online':
+        return visible(event.stream) ? event : null;
+      case 'stream.title_changed':
+      case 'stream.game_changed': {
+        const wasHidden = hiddenChannelIds.has(event.channelId);
+        const isVisible = visible(event.stream);
+
+        if (wasHidden && isVisible) {
+          return { type: 'stream.online', stream: event.stream };
+        }
+
+        if (!wasHidden && !isVisible) {
+          return {
+            type: 'stream.offline',
+            channelId: event.channelId,
+            loginName: event.stream.loginName,
+          };
+        }
+
+        return isVisible ? event : null;
+      }
+      case 'stream.offline':
+        return hiddenChannelIds.has(event.channelId) ? null : event;
+      case 'viewers':
+        return {
+          ...event,
+          viewers: Object.fromEntries(
+            Object.entries(event.viewers).filter(
+              ([channelId]) => !hiddenChannelIds.has(channelId),
+            ),
+          ),
+        };
+      default:
+        return event;
+    }
+  };
+}
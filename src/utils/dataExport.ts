@@ -0,0 +1,95 @@
+import prisma from '../prismaClient';
+import { getAccountDeletion } from './accountDeletion';
+import { getContentFilters } from './contentFilters';
+import { getSettings } from './settings';
+import { listSessions } from './sessions';
+
+/**
+ * Collects everything we store about the user. Tokens, passwords and other
+ * secrets are left out.
+ */
+export async function exportUserData(userId: string, currentSessionId: string) {
+  const [
+    profile,
+    accounts,
+    sessions,
+    favorites,
+    { settings },
+    contentFilters,
+    subscriptions,
+    orders,
+    deletion,
+  ] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        emailVerified: true,
+        image: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    }),
+    prisma.account.findMany({
+      where: { userId },
+      select: {
+        providerId: true,
+        accountId: true,
+        scope: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    }),
+    listSessions(userId, currentSessionId),
+    prisma.favoriteChannel.findMany({
+      where: { userId },
+      orderBy: { position: 'asc' },
+      select: { channelId: true, position: true, createdAt: true },
+    }),
+    getSettings(userId),
+    getContentFilters(userId),
+    prisma.polarSubscription.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        productId: true,
+        status: true,
+        currentPeriodEnd: true,
+        cancelAtPeriodEnd: true,
+        canceledAt: true,
+        endedAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.polarOrder.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        productId: true,
+        subscriptionId: true,
+        status: true,
+        paid: true,
+        refundedAmount: true,
+        createdAt: true,
+      },
+    }),
+    getAccountDeletion(userId),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    accounts,
+    sessions,
+    favorites,
+    settings,
+    contentFilters,
+    subscriptions,
+    orders,
+    deletion,
+  };
+}
@@ -0,0 +1,29 @@
+import prisma from '../prismaClient';
+
+const CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 hour in milliseconds
+
+/**
+ * Deletes device sign in codes that expired without being used. Codes that
+ * are polled after expiring are deleted by better-auth itself.
+ */
+export async function deleteExpiredDeviceCodes() {
+  const { count } = await prisma.deviceCode.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+
+  return count;
+}
+
+/**
+ * Deletes expired device codes now and every hour after that. Running on
+ * several instances at once is harmless, so there's no lock.
+ */
+export function startDeviceCodeCleanup() {
+  const cleanup = () =>
+    deleteExpiredDeviceCodes().catch((err) =>
+      console.error('Failed to delete expired device codes', err),
+    );
+
+  cleanup();
+  setInterval(cleanup, CLEANUP_INTERVAL);
+}
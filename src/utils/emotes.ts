@@ -0,0 +1,95 @@
+import type {
+  Emote,
+  EmoteProvider,
+  EmoteProviderContext,
+} from '../interfaces/emote';
+import { cached } from './cache';
+import {
+  fetchChannelEmotes,
+  fetchGlobalEmotes,
+  type EmoteData,
+} from './twitchApi';
+
+const GLOBAL_EMOTES_TTL = 24 * 60 * 60; // 24 hours in seconds
+const CHANNEL_EMOTES_TTL = 60 * 60; // 1 hour in seconds
+
+const TWITCH_EMOTE_SCALES = {
+  '1x': '1.0',
+  '2x': '2.0',
+  '4x': '3.0',
+} as const;
+
+// Builds emote URLs from the `template` Helix returns alongside emotes
+function toTwitchEmote(emote: EmoteData, template: string): Emote {
+  const animated = emote.format.includes('animated');
+
+  const url = (scale: string) =>
+    template
+      .replace('{{id}}', emote.id)
+      .replace('{{format}}', animated ? 'animated' : 'static')
+      .replace('{{theme_mode}}', 'dark')
+      .replace('{{scale}}', scale);
+
+  return {
+    id: emote.id,
+    code: emote.name,
+    animated,
+    urls: {
+      '1x': url(TWITCH_EMOTE_SCALES['1x']),
+      '2x': url(TWITCH_EMOTE_SCALES['2x']),
+      '4x': url(TWITCH_EMOTE_SCALES['4x']),
+    },
+    source: 'twitch',
+  };
+}
+
+const twitchEmoteProvider: EmoteProvider = {
+  source: 'twitch',
+  fetchGlobalEmotes: async ({ accessToken }) => {
+    const { data, template } = await fetchGlobalEmotes({ accessToken });
+    return data.map((emote) => toTwitchEmote(emote, template));
+  },
+  fetchChannelEmotes: async ({ broadcasterId, accessToken }) => {
+    const { data, template } = await fetchChannelEmotes({
+      broadcasterId,
+      accessToken,
+    });
+    return data.map((emote) => toTwitchEmote(emote, template));
+  },
+};
+
+// Later providers override earlier ones when emote codes collide
+const emoteProviders: EmoteProvider[] = [twitchEmoteProvider];
+
+/**
+ * Returns every emote usable in a channel's chat from all providers, with
+ * channel emotes overriding global ones that share a code.
+ */
+export async function getChannelEmotes(
+  context: EmoteProviderContext,
+): Promise<Emote[]> {
+  const emoteSets = await Promise.all(
+    emoteProviders.map((provider) =>
+      Promise.all([
+        cached(`emotes:${provider.source}:global`, GLOBAL_EMOTES_TTL, () =>
+          provider.fetchGlobalEmotes(context),
+        ),
+        cached(
+          `emotes:${provider.source}:channel:${context.broadcasterId}`,
+          CHANNEL_EMOTES_TTL,
+          () => provider.fetchChannelEmotes(context),
+        ),
+      ]),
+    ),
+  );
+
+  const globalEmotes = emoteSets.flatMap(([global]) => global);
+  const channelEmotes = emoteSets.flatMap(([, channel]) => channel);
+
+  const emotesByCode = new Map<string, Emote>();
+  for (const emote of [...globalEmotes, ...channelEmotes]) {
+    emotesByCode.set(emote.code, emote);
+  }
+
+  return [...emotesByCode.values()];
+}
@@ -0,0 +1,106 @@
+import type {
+  Entitlements,
+  Feature,
+  Plan,
+  Tier,
+} from '../interfaces/entitlements';
+import prisma from '../prismaClient';
+import { cached, invalidateCached } from './cache';
+
+const ENTITLEMENTS_TTL = 5 * 60; // 5 minutes in seconds
+
+// Same products as the Polar checkout in `auth.ts`
+const PLAN_PRODUCT_IDS: Record<Plan, string | undefined> = {
+  monthly: process.env.MONTHLY_PRODUCT_ID,
+  yearly: process.env.YEARLY_PRODUCT_ID,
+  lifetime: process.env.LIFETIME_PRODUCT_ID,
+};
+
+export const TIER_FEATURES: Record<Tier, Feature[]> = {
+  free: [],
+  premium: ['chatRelay', 'multiStream', 'notifications'],
+};
+
+const FREE_ENTITLEMENTS: Entitlements = {
+  tier: 'free',
+  plan: null,
+  expiresAt: null,
+  cancelAtPeriodEnd: false,
+  features: TIER_FEATURES.free,
+};
+
+// Subscriptions in these states grant access, canceled ones stay `active`
+// with `cancelAtPeriodEnd` set until the paid period is over
+const ACTIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing'];
+// Orders in these states grant access, fully refunded ones don't
+const VALID_ORDER_STATUSES = ['paid', 'partially_refunded'];
+
+function planForProduct(productId: string) {
+  const entry = Object.entries(PLAN_PRODUCT_IDS).find(
+    ([, id]) => id === productId,
+  );
+
+  return entry ? (entry[0] as Plan) : null;
+}
+
+async function loadEntitlements(userId: string): Promise<Entitlements> {
+  const [lifetimeOrder, subscriptions] = await Promise.all([
+    PLAN_PRODUCT_IDS.lifetime
+      ? prisma.polarOrder.findFirst({
+          where: {
+            userId,
+            productId: PLAN_PRODUCT_IDS.lifetime,
+            status: { in: VALID_ORDER_STATUSES },
+          },
+          select: { id: true },
+        })
+      : null,
+    prisma.polarSubscription.findMany({
+      where: {
+        userId,
+        status: { in: ACTIVE_SUBSCRIPTION_STATUSES },
+      },
+      orderBy: { currentPeriodEnd: 'desc' },
+    }),
+  ]);
+
+  if (lifetimeOrder) {
+    return {
+      tier: 'premium',
+      plan: 'lifetime',
+      expiresAt: null,
+      cancelAtPeriodEnd: false,
+      features: TIER_FEATURES.premium,
+    };
+  }
+
+  for (const subscription of subscriptions) {
+    const plan = planForProduct(subscription.productId);
+    if (!plan) continue;
+
+    return {
+      tier: 'premium',
+      plan,
+      expiresAt: subscription.currentPeriodEnd?.toISOString() ?? null,
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+      features: TIER_FEATURES.premium,
+    };
+  }
+
+  return FREE_ENTITLEMENTS;
+}
+
+/**
+ * Works out what the user has paid for from the Polar subscriptions and
+ * lifetime orders we keep in sync through webhooks.
+ */
+export function getEntitlements(userId: string) {
+  return cached(`entitlements:${userId}`, ENTITLEMENTS_TTL, () =>
+    loadEntitlements(userId),
+  );
+}
+
+// Called when a purchase changes so the next lookup sees it right away
+export async function invalidateEntitlements(userId: string) {
+  await invalidateCached(`entitlements:${userId}`);
+}
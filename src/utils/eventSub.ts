@@ -0,0 +1,270 @@
+const EVENTSUB_WS_URL = 'wss://eventsub.wss.twitch.tv/ws';
+const KEEPALIVE_GRACE = 5 * 1000; // 5 seconds in milliseconds
+const MAX_RECONNECT_DELAY = 30 * 1000; // 30 seconds in milliseconds
+const SEEN_MESSAGES_LIMIT = 500;
+
+interface EventSubMetadata {
+  message_id: string;
+  message_type:
+    | 'session_welcome'
+    | 'session_keepalive'
+    | 'session_reconnect'
+    | 'notification'
+    | 'revocation';
+  message_timestamp: string;
+  subscription_type?: string;
+  subscription_version?: string;
+}
+
+interface EventSubSessionPayload {
+  id: string;
+  status: string;
+  keepalive_timeout_seconds: number | null;
+  reconnect_url: string | null;
+  connected_at: string;
+}
+
+export interface EventSubSubscriptionPayload {
+  id: string;
+  status: string;
+  type: string;
+  version: string;
+  condition: Record<string, string>;
+}
+
+interface EventSubMessage {
+  metadata: EventSubMetadata;
+  payload: {
+    session?: EventSubSessionPayload;
+    subscription?: EventSubSubscriptionPayload;
+    event?: unknown;
+  };
+}
+
+interface EventSubSessionHandlers {
+  onNotification: (
+    subscription: EventSubSubscriptionPayload,
+    event: unknown,
+  ) => void;
+  onRevocation: (subscription: EventSubSubscriptionPayload) => void;
+  // Called when the connection was lost and a new session had to be created;
+  // Twitch drops every subscription of the old session in that case.
+  onReset: (sessionId: string) => void;
+}
+
+/**
+ * A single Twitch EventSub WebSocket session.
+ *
+ * Handles keepalive timeouts, `session_reconnect` hand-offs (which keep the
+ * session's subscriptions) and full reconnects with backoff (which don't).
+ */
+export class EventSubSession {
+  private socket: WebSocket | null = null;
+  private sessionId: string | null = null;
+  private ready: Promise<string> | null = null;
+  private keepaliveTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Settles `ready` once a reconnect with backoff is welcomed, shared by all
+  // retries of that reconnect
+  private pendingReconnect: {
+    resolve: (sessionId: string) => void;
+    reject: (err: Error) => void;
+  } | null = null;
+  private keepaliveTimeout = 10 * 1000;
+  private reconnectAttempts = 0;
+  private needsReset = false;
+  private closed = false;
+  private seenMessageIds = new Set<string>();
+
+  constructor(private readonly handlers: EventSubSessionHandlers) {}
+
+  /**
+   * Resolves with the id of a welcomed session, connecting if needed.
+   */
+  async getSessionId() {
+    if (this.sessionId) return this.sessionId;
+    if (!this.ready) {
+      this.ready = this.open(EVENTSUB_WS_URL).catch((err) => {
+        this.ready = null;
+        throw err;
+      });
+    }
+
+    return this.ready;
+  }
+
+  close() {
+    this.closed = true;
+    this.clearKeepalive();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.pendingReconnect?.reject(new Error('EventSub session closed'));
+    this.pendingReconnect = null;
+    this.socket?.close();
+    this.socket = null;
+    this.sessionId = null;
+    this.ready = null;
+  }
+
+  private open(url: string, isReconnect = false) {
+    return new Promise<string>((resolve, reject) => {
+      const socket = new WebSocket(url);
+      let welcomed = false;
+
+      socket.addEventListener('message', (event) => {
+        const message = JSON.parse(String(event.data)) as EventSubMessage;
+
+        // Messages from a socket we already replaced are ignored
+        if (welcomed && socket !== this.socket) return;
+
+        if (message.metadata.message_type === 'session_welcome') {
+          const session = message.payload.session!;
+
+          // Closed while this connection was being set up
+          if (this.closed) {
+            socket.close();
+            reject(new Error('EventSub session closed'));
+            return;
+          }
+
+          const previous = this.socket;
+
+          welcomed = true;
+          this.socket = socket;
+          this.sessionId = session.id;
+          this.reconnectAttempts = 0;
+          if (session.keepalive_timeout_seconds) {
+            this.keepaliveTimeout = session.keepalive_timeout_seconds * 1000;
+          }
+          this.resetKeepalive();
+
+          // Only close the old connection once the new one is welcomed
+          if (isReconnect && previous && previous !== socket) {
+            previous.close();
+          }
+
+          if (this.needsReset) {
+            this.needsReset = false;
+            this.handlers.onReset(session.id);
+          }
+
+          resolve(session.id);
+          return;
+        }
+
+        this.handleMessage(message);
+      });
+
+      socket.addEventListener('close', () => {
+        if (!welcomed) {
+          reject(new Error(`EventSub connection to ${url} closed early`));
+          return;
+        }
+
+        // A replaced socket closing is expected after a session_reconnect
+        if (socket !== this.socket || this.closed) return;
+
+        this.scheduleReconnect();
+      });
+
+      socket.addEventListener('error', (error) => {
+        console.error('EventSub WebSocket error', error);
+      });
+    });
+  }
+
+  private handleMessage(message: EventSubMessage) {
+    this.resetKeepalive();
+
+    const { message_id, message_type } = message.metadata;
+
+    // Twitch may deliver the same message more than once
+    if (this.seenMessageIds.has(message_id)) return;
+    this.seenMessageIds.add(message_id);
+    if (this.seenMessageIds.size > SEEN_MESSAGES_LIMIT) {
+      const oldest = this.seenMessageIds.values().next().value;
+      if (oldest) this.seenMessageIds.delete(oldest);
+    }
+
+    switch (message_type) {
+      case 'session_keepalive':
+        return;
+      case 'session_reconnect': {
+        const reconnectUrl = message.payload.session?.reconnect_url;
+        if (!reconnectUrl) return;
+
+        this.open(reconnectUrl, true).catch((err) => {
+          console.error('EventSub session_reconnect failed', err);
+          this.scheduleReconnect();
+        });
+        return;
+      }
+      case 'notification':
+        this.handlers.onNotification(
+          message.payload.subscription!,
+          message.payload.event,
+        );
+        return;
+      case 'revocation':
+        this.handlers.onRevocation(message.payload.subscription!);
+        return;
+    }
+  }
+
+  private resetKeepalive() {
+    this.clearKeepalive();
+    this.keepaliveTimer = setTimeout(() => {
+      console.error('EventSub keepalive timed out, reconnecting');
+      this.scheduleReconnect();
+    }, this.keepaliveTimeout + KEEPALIVE_GRACE);
+  }
+
+  private clearKeepalive() {
+    if (this.keepaliveTimer) clearTimeout(this.keepaliveTimer);
+    this.keepaliveTimer = null;
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) return;
+
+    this.clearKeepalive();
+    const stale = this.socket;
+    this.socket = null;
+    this.sessionId = null;
+    this.needsReset = true;
+    stale?.close();
+
+    const delay = Math.min(
+      1000 * 2 ** this.reconnectAttempts,
+      MAX_RECONNECT_DELAY,
+    );
+    this.reconnectAttempts++;
+
+    if (!this.pendingReconnect) {
+      const ready = new Promise<string>((resolve, reject) => {
+        this.pendingReconnect = { resolve, reject };
+      });
+      // Nobody may be waiting for the session when it's closed mid-backoff
+      ready.catch(() => {});
+      this.ready = ready;
+    }
+
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+
+      this.open(EVENTSUB_WS_URL).then(
+        (sessionId) => {
+          this.pendingReconnect?.resolve(sessionId);
+          this.pendingReconnect = null;
+        },
+        (err) => {
+          if (this.closed) return;
+
+          console.error('EventSub reconnect failed', err);
+          this.scheduleReconnect();
+        },
+      );
+    }, delay);
+  }
+}
@@ -0,0 +1,198 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { BadRequestError, ForbiddenError } from '../interfaces/errors';
+import prisma from '../prismaClient';
+import redisClient from '../redisClient';
+import type { EventSubSubscriptionPayload } from './eventSub';
+
+// Older messages are rejected as replays, as Twitch recommends
+const MAX_MESSAGE_AGE = 10 * 60 * 1000; // 10 minutes in milliseconds
+// Message ids are remembered for longer than messages are accepted
+const SEEN_MESSAGE_TTL = 15 * 60; // 15 minutes in seconds
+
+export interface StreamOnlineEvent {
+  id: string;
+  broadcaster_user_id: string;
+  broadcaster_user_login: string;
+  broadcaster_user_name: string;
+  type: string;
+  started_at: string;
+}
+
+export interface StreamOfflineEvent {
+  broadcaster_user_id: string;
+  broadcaster_user_login: string;
+  broadcaster_user_name: string;
+}
+
+export type EventSubWebhookMessage = {
+  id: string;
+  timestamp: string;
+  subscription: EventSubSubscriptionPayload;
+} & (
+  | { type: 'webhook_callback_verification'; challenge: string }
+  | { type: 'notification'; event: unknown }
+  | { type: 'revocation' }
+);
+
+// Twitch sends nanosecond timestamps, Date only parses milliseconds
+function parseTimestamp(timestamp: string) {
+  return new Date(timestamp.replace(/(\.\d{3})\d+/, '$1'));
+}
+
+/**
+ * Computes the `Twitch-Eventsub-Message-Signature` header Twitch sends with a
+ * webhook message.
+ */
+export function signEventSubMessage({
+  messageId,
+  timestamp,
+  body,
+  secret,
+}: {
+  messageId: string;
+  timestamp: string;
+  body: string;
+  secret: string;
+}) {
+  const hmac = createHmac('sha256', secret)
+    .update(messageId + timestamp + body)
+    .digest('hex');
+
+  return `sha256=${hmac}`;
+}
+
+/**
+ * Checks the signature and age of an EventSub webhook request and parses it.
+ *
+ * Throws a ForbiddenError for requests that weren't signed with `secret` or
+ * are too old to be anything but a replay.
+ */
+export function verifyEventSubMessage({
+  headers,
+  body,
+  secret,
+  now = Date.now(),
+}: {
+  // Lowercase header names, as Hono's `c.req.header()` returns them
+  headers: Record<string, string | undefined>;
+  body: string;
+  secret: string;
+  now?: number;
+}): EventSubWebhookMessage {
+  const messageId = headers['twitch-eventsub-message-id'];
+  const messageType = headers['twitch-eventsub-message-type'];
+  const timestamp = headers['twitch-eventsub-message-timestamp'];
+  const signature = headers['twitch-eventsub-message-signature'];
+
+  if (!messageId || !messageType || !timestamp || !signature) {
+    throw new ForbiddenError('Missing EventSub signature headers');
+  }
+
+  const expected = Buffer.from(
+    signEventSubMessage({ messageId, timestamp, body, secret }),
+  );
+  const received = Buffer.from(signature);
+
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    throw new ForbiddenError('Invalid webhook signature');
+  }
+
+  const sentAt = parseTimestamp(timestamp).getTime();
+  if (Number.isNaN(sentAt) || Math.abs(now - sentAt) > MAX_MESSAGE_AGE) {
+    throw new ForbiddenError('EventSub message is too old');
+  }
+
+  const payload = JSON.parse(body) as {
+    subscription: EventSubSubscriptionPayload;
+    challenge?: string;
+    event?: unknown;
+  };
+  const base = { id: messageId, timestamp, subscription: payload.subscription };
+
+  switch (messageType) {
+    case 'webhook_callback_verification':
+      return { ...base, type: messageType, challenge: payload.challenge! };
+    case 'notification':
+      return { ...base, type: messageType, event: payload.event };
+    case 'revocation':
+      return { ...base, type: messageType };
+    default:
+      throw new BadRequestError(`Unknown EventSub message type ${messageType}`);
+  }
+}
+
+type NotificationMessage = Extract<
+  EventSubWebhookMessage,
+  { type: 'notification' }
+>;
+
+async function saveStreamEvent(message: NotificationMessage) {
+  const { subscription, event } = message;
+  const { broadcaster_user_id, broadcaster_user_login } = event as
+    | StreamOnlineEvent
+    | StreamOfflineEvent;
+
+  await prisma.streamEvent.createMany({
+    data: [
+      {
+        id: message.id,
+        broadcasterId: broadcaster_user_id,
+        broadcasterLogin: broadcaster_user_login,
+        type: subscription.type,
+        startedAt:
+          subscription.type === 'stream.online'
+            ? parseTimestamp((event as StreamOnlineEvent).started_at)
+            : null,
+        occurredAt: parseTimestamp(message.timestamp),
+      },
+    ],
+    // Redelivered after its id dropped out of Redis
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Handles a verified notification or revocation. Twitch redelivers messages
+ * it isn't sure we got, so ones we've seen are ignored and false returned.
+ */
+export async function handleEventSubMessage(message: EventSubWebhookMessage) {
+  const firstSeen = await redisClient.set(
+    `eventsub:message:${message.id}`,
+    '1',
+    {
+      condition: 'NX',
+      expiration: { type: 'EX', value: SEEN_MESSAGE_TTL },
+    },
+  );
+  if (firstSeen !== 'OK') return false;
+
+  const { subscription } = message;
+
+  if (message.type === 'revocation') {
+    // Twitch has already deleted it, the next sync recreates it if it's
+    // still wanted and can be
+    console.warn(
+      `EventSub subscription ${subscription.id} (${subscription.type}) revoked: ${subscription.status}`,
+    );
+    return true;
+  }
+
+  if (
+    message.type === 'notification' &&
+    (subscription.type === 'stream.online' ||
+      subscription.type === 'stream.offline')
+  ) {
+    try {
+      await saveStreamEvent(message);
+    } catch (err) {
+      // Let Twitch's redelivery through
+      await redisClient.del(`eventsub:message:${message.id}`);
+      throw err;
+    }
+  }
+
+  return true;
+}
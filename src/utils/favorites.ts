@@ -0,0 +1,121 @@
+import type { Prisma } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { BadRequestError } from '../interfaces/errors';
+import prisma from '../prismaClient';
+import { watchChannel } from './streamSubscriptions';
+
+// Keeps resolving favorites to a single batch of Helix lookups
+export const MAX_FAVORITES = 100;
+
+/**
+ * Returns the user's favorite channel ids in their chosen order.
+ */
+export async function getFavoriteChannelIds(userId: string) {
+  const favorites = await prisma.favoriteChannel.findMany({
+    where: { userId },
+    orderBy: { position: 'asc' },
+    select: { channelId: true },
+  });
+
+  return favorites.map((favorite: { channelId: string }) => favorite.channelId);
+}
+
+async function insertFavorite(userId: string, channelId: string) {
+  try {
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Pins of one user run one at a time, so the count and the next
+      // position can't be read by two of them at once
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`favorites:${userId}`}))`;
+
+      const existing = await tx.favoriteChannel.findUnique({
+        where: { userId_channelId: { userId, channelId } },
+      });
+      if (existing) return { favorite: existing, created: false };
+
+      const count = await tx.favoriteChannel.count({ where: { userId } });
+      if (count >= MAX_FAVORITES) {
+        throw new BadRequestError(
+          `Cannot pin more than ${MAX_FAVORITES} channels`,
+        );
+      }
+
+      const last = await tx.favoriteChannel.findFirst({
+        where: { userId },
+        orderBy: { position: 'desc' },
+        select: { position: true },
+      });
+
+      const favorite = await tx.favoriteChannel.create({
+        data: {
+          userId,
+          channelId,
+          position: (last?.position ?? -1) + 1,
+        },
+      });
+
+      return { favorite, created: true };
+    });
+  } catch (err) {
+    // A concurrent pin of the same channel got in first
+    if (err instanceof PrismaClientKnownRequestError && err.code === 'P2002') {
+      const favorite = await prisma.favoriteChannel.findUniqueOrThrow({
+        where: { userId_channelId: { userId, channelId } },
+      });
+
+      return { favorite, created: false };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Pins a channel at the end of the user's favorites. Pinning a channel twice
+ * keeps its current position.
+ */
+export async function addFavorite(userId: string, channelId: string) {
+  const { favorite, created } = await insertFavorite(userId, channelId);
+
+  // Go-live notifications for the channel shouldn't wait for the next sync
+  if (created) {
+    watchChannel(channelId).catch((err) =>
+      console.error(`Failed to watch channel ${channelId}`, err),
+    );
+  }
+
+  return favorite;
+}
+
+export async function removeFavorite(userId: string, channelId: string) {
+  const { count } = await prisma.favoriteChannel.deleteMany({
+    where: { userId, channelId },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Reorders the user's favorites. `channelIds` must list every pinned channel
+ * exactly once.
+ */
+export async function reorderFavorites(userId: string, channelIds: string[]) {
+  const current = await getFavoriteChannelIds(userId);
+
+  if (
+    channelIds.length !== current.length ||
+    new Set(channelIds).size !== channelIds.length ||
+    !channelIds.every((id) => current.includes(id))
+  ) {
+    throw new BadRequestError('channelIds must list every pinned channel once');
+  }
+
+  await prisma.$transaction(
+    channelIds.map((channelId, position) =>
+      prisma.favoriteChannel.update({
+        where: { userId_channelId: { userId, channelId } },
+        data: { position },
+      }),
+    ),
+  );
+
+  return channelIds;
+}
@@ -0,0 +1,234 @@
+import { HTTPException } from 'hono/http-exception';
+import { ReauthenticationRequiredError } from '../interfaces/errors';
+import type { FollowedStreamEvent } from '../interfaces/followedStreams';
+import type { Streamer } from '../interfaces/streamer';
+import { getAllFollowedStreamers, withCurrentUptime } from './streamers';
+import { withUserToken } from './userTokens';
+
+const POLL_INTERVAL = 30 * 1000; // 30 seconds in milliseconds
+// Users polled at once, each poll costs a couple of Helix requests
+const POLL_CONCURRENCY = 10;
+
+export interface FollowedStreamsListener {
+  send: (event: FollowedStreamEvent) => void;
+  close: () => void;
+}
+
+interface WatchedUser {
+  userId: string;
+  listeners: Set<FollowedStreamsListener>;
+  // Live followed streams keyed by channel id, null until the first poll
+  snapshot: Map<string, Streamer> | null;
+  polling: Promise<void> | null;
+}
+
+/**
+ * Lists the changes between two polls of a user's live followed streams.
+ */
+export function diffSnapshots(
+  previous: Map<string, Streamer>,
+  current: Map<string, Streamer>,
+): FollowedStreamEvent[] {
+  const events: FollowedStreamEvent[] = [];
+
+  for (const [channelId, stream] of current) {
+    const before = previous.get(channelId);
+
+    if (!before) {
+      events.push({ type: 'stream.online', stream });
+      continue;
+    }
+
+    if (before.title !== stream.title) {
+      events.push({
+        type: 'stream.title_changed',
+        channelId,
+        title: stream.title,
+        stream,
+      });
+    }
+
+    if (
+      before.gameId !== stream.gameId ||
+      before.gameName !== stream.gameName
+    ) {
+      events.push({
+        type: 'stream.game_changed',
+        channelId,
+        gameId: stream.gameId,
+        gameName: stream.gameName,
+        stream,
+      });
+    }
+  }
+
+  for (const [channelId, stream] of previous) {
+    if (!current.has(channelId)) {
+      events.push({
+        type: 'stream.offline',
+        channelId,
+        loginName: stream.loginName,
+      });
+    }
+  }
+
+  if (current.size > 0) {
+    events.push({
+      type: 'viewers',
+      viewers: Object.fromEntries(
+        [...current.values()].map((stream) => [
+          stream.channelId,
+          stream.viewers,
+        ]),
+      ),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Pushes changes to users' followed streams to connected clients.
+ *
+ * A single timer polls Helix once per interval for every user with at least
+ * one listener, no matter how many clients that user has connected, and
+ * stops once the last listener leaves.
+ */
+class FollowedStreamsPoller {
+  // Keyed by user id
+  private users = new Map<string, WatchedUser>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  /**
+   * Starts sending changes to the listener and returns the user's current
+   * live followed streams, which the client should treat as a full reset.
+   */
+  async add(userId: string, listener: FollowedStreamsListener) {
+    let user = this.users.get(userId);
+
+    if (!user) {
+      user = { userId, listeners: new Set(), snapshot: null, polling: null };
+      this.users.set(userId, user);
+    }
+
+    if (!user.snapshot) {
+      try {
+        await this.poll(user);
+      } catch (err) {
+        if (user.listeners.size === 0) this.users.delete(userId);
+        throw err;
+      }
+    }
+
+    // Only listen once the snapshot is known, so no diff arrives before it
+    user.listeners.add(listener);
+    this.start();
+
+    return withCurrentUptime([...user.snapshot!.values()]);
+  }
+
+  remove(userId: string, listener: FollowedStreamsListener) {
+    const user = this.users.get(userId);
+    if (!user || !user.listeners.delete(listener)) return;
+
+    if (user.listeners.size === 0) {
+      this.users.delete(userId);
+    }
+
+    if (this.users.size === 0) {
+      this.stop();
+    }
+  }
+
+  private start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL);
+  }
+
+  private stop() {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async tick() {
+    // A slow round skips the next one instead of piling up
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const users = [...this.users.values()];
+
+      for (let i = 0; i < users.length; i += POLL_CONCURRENCY) {
+        await Promise.all(
+          users
+            .slice(i, i + POLL_CONCURRENCY)
+            .map((user) =>
+              this.poll(user).catch((err) => this.fail(user, err)),
+            ),
+        );
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private poll(user: WatchedUser) {
+    if (!user.polling) {
+      user.polling = this.refresh(user).finally(() => {
+        user.polling = null;
+      });
+    }
+
+    return user.polling;
+  }
+
+  private async refresh(user: WatchedUser) {
+    const streams = await withUserToken(user.userId, (token) =>
+      getAllFollowedStreamers({
+        accountId: token.accountId,
+        userAccessToken: token.accessToken,
+      }),
+    );
+
+    // A failed poll keeps the old snapshot, so the next diff covers the gap
+    const previous = user.snapshot;
+    const current = new Map(
+      streams.map((stream) => [stream.channelId, stream]),
+    );
+    user.snapshot = current;
+
+    if (!previous) return;
+
+    for (const event of diffSnapshots(previous, current)) {
+      for (const listener of user.listeners) {
+        listener.send(event);
+      }
+    }
+  }
+
+  private fail(user: WatchedUser, err: unknown) {
+    // Retrying won't help without a new sign in, disconnect the user's clients
+    if (err instanceof ReauthenticationRequiredError) {
+      for (const listener of user.listeners) {
+        listener.send({ type: 'error', code: err.code, message: err.message });
+        listener.close();
+      }
+      user.listeners.clear();
+      this.users.delete(user.userId);
+
+      if (this.users.size === 0) this.stop();
+      return;
+    }
+
+    console.error(
+      `Failed to poll followed streams for user ${user.userId}`,
+      err instanceof HTTPException ? err.message : err,
+    );
+  }
+}
+
+export const followedStreamsPoller = new FollowedStreamsPoller();
@@ -0,0 +1,82 @@
+import type { Game } from '../interfaces/game';
+import { resolveImageSizes } from './streamers';
+import {
+  fetchGame,
+  fetchTopGames,
+  searchCategories,
+  type GameData,
+} from './twitchApi';
+
+// Box art is 3:4, medium is the size Twitch itself shows
+const BOX_ART_SIZES = {
+  small: [144, 192],
+  medium: [285, 380],
+  large: [570, 760],
+} as const;
+
+// Category search returns box art at a fixed size instead of a template
+function toBoxArtTemplate(url: string) {
+  return url.replace(/-\d+x\d+(\.\w+)$/, '-{width}x{height}$1');
+}
+
+export function buildGame(gameData: GameData): Game {
+  return {
+    id: gameData.id,
+    name: gameData.name,
+    boxArt: resolveImageSizes(
+      toBoxArtTemplate(gameData.box_art_url),
+      BOX_ART_SIZES,
+    ),
+    igdbId: gameData.igdb_id || null,
+  };
+}
+
+export async function getGame({
+  gameId,
+  accessToken,
+}: {
+  gameId: string;
+  accessToken: string;
+}) {
+  const gameData = await fetchGame({ gameId, accessToken });
+
+  return gameData ? buildGame(gameData) : null;
+}
+
+/**
+ * Returns a page of the categories with the most viewers right now.
+ */
+export async function getTopGames({
+  first,
+  after,
+  accessToken,
+}: {
+  first?: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const { data, cursor } = await fetchTopGames({ first, after, accessToken });
+
+  return { games: data.map(buildGame), cursor };
+}
+
+export async function searchGames({
+  searchQuery,
+  first,
+  after,
+  accessToken,
+}: {
+  searchQuery: string;
+  first?: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const { data, cursor } = await searchCategories({
+    searchQuery,
+    first,
+    after,
+    accessToken,
+  });
+
+  return { games: data.map(buildGame), cursor };
+}
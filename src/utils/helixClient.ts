@@ -0,0 +1,218 @@
+import {
+  TwitchApiError,
+  TwitchAuthError,
+  TwitchRateLimitError,
+  TwitchTimeoutError,
+} from '../interfaces/errors';
+
+const HELIX_BASE_URL = 'https://api.twitch.tv/helix';
+const REQUEST_TIMEOUT = 10 * 1000; // 10 seconds in milliseconds
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY = 250; // milliseconds
+const MAX_RETRY_DELAY = 10 * 1000; // 10 seconds in milliseconds
+const MAX_TRACKED_BUCKETS = 1000;
+
+type HelixQueryValue = string | number | boolean | undefined;
+
+export type HelixQuery = Record<string, HelixQueryValue | HelixQueryValue[]>;
+
+interface HelixRequestOptions {
+  accessToken: string;
+  method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  query?: HelixQuery;
+  body?: unknown;
+}
+
+// Swaps a token Twitch rejected for a fresh one, or returns null if the
+// token isn't one the handler owns
+type UnauthorizedHandler = (accessToken: string) => Promise<string | null>;
+
+// Twitch rate limits per token, so buckets are tracked per token
+interface RateLimitBucket {
+  remaining: number;
+  resetAt: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function toSearchParams(query: HelixQuery = {}) {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined) params.append(key, String(item));
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Typed client for the Twitch Helix API.
+ *
+ * Requests time out, 429s and 5xx responses are retried with jittered
+ * exponential backoff, and requests wait for the token's rate limit bucket to
+ * refill when Twitch reports it empty. Failures surface as `TwitchApiError`s.
+ */
+export class HelixClient {
+  private buckets = new Map<string, RateLimitBucket>();
+  private unauthorizedHandler: UnauthorizedHandler | null = null;
+
+  constructor(private readonly clientId: string) {}
+
+  /**
+   * Registers a handler that gets one chance to replace a token Helix
+   * answered with 401 before the request is retried with the new token.
+   */
+  onUnauthorized(handler: UnauthorizedHandler) {
+    this.unauthorizedHandler = handler;
+  }
+
+  get<T>(path: string, options: Omit<HelixRequestOptions, 'method'>) {
+    return this.request<T>(path, { ...options, method: 'GET' });
+  }
+
+  post<T>(path: string, options: Omit<HelixRequestOptions, 'method'>) {
+    return this.request<T>(path, { ...options, method: 'POST' });
+  }
+
+  delete<T>(path: string, options: Omit<HelixRequestOptions, 'method'>) {
+    return this.request<T>(path, { ...options, method: 'DELETE' });
+  }
+
+  async request<T>(
+    path: string,
+    { accessToken, method = 'GET', query, body }: HelixRequestOptions,
+  ): Promise<T> {
+    let replacedToken = false;
+    const params = toSearchParams(query);
+    const url = `${HELIX_BASE_URL}${path}${params.size ? `?${params}` : ''}`;
+    // Non-GET requests may have side effects, so only 429s are retried
+    const idempotent = method === 'GET' || method === 'DELETE';
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBucket(accessToken);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Client-ID': this.clientId,
+            ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+        });
+      } catch (err) {
+        if (idempotent && attempt < MAX_RETRIES) {
+          await sleep(this.backoff(attempt));
+          continue;
+        }
+
+        if (err instanceof DOMException && err.name === 'TimeoutError') {
+          throw new TwitchTimeoutError(`Twitch request to ${path} timed out`);
+        }
+        throw new TwitchApiError(0, `Twitch request to ${path} failed: ${err}`);
+      }
+
+      this.updateBucket(accessToken, response);
+
+      if (response.ok) {
+        if (response.status === 204) return undefined as T;
+        return (await response.json()) as T;
+      }
+
+      if (
+        response.status === 401 &&
+        !replacedToken &&
+        this.unauthorizedHandler
+      ) {
+        const freshToken = await this.unauthorizedHandler(accessToken);
+        replacedToken = true;
+
+        if (freshToken) {
+          accessToken = freshToken;
+          continue;
+        }
+      }
+
+      const retryable =
+        response.status === 429 || (idempotent && response.status >= 500);
+
+      if (retryable && attempt < MAX_RETRIES) {
+        await sleep(
+          response.status === 429
+            ? this.untilReset(accessToken)
+            : this.backoff(attempt),
+        );
+        continue;
+      }
+
+      throw await this.toError(path, response, accessToken);
+    }
+  }
+
+  private async toError(path: string, response: Response, token: string) {
+    const message = await response
+      .json()
+      .then((data) => (data as { message?: string }).message)
+      .catch(() => undefined);
+    const description = `Twitch request to ${path} failed: ${response.status} ${message ?? response.statusText}`;
+
+    switch (response.status) {
+      case 401:
+        return new TwitchAuthError(description);
+      case 429:
+        return new TwitchRateLimitError(this.untilReset(token), description);
+      default:
+        return new TwitchApiError(response.status, description);
+    }
+  }
+
+  // Full jitter: a random delay up to the exponential backoff ceiling
+  private backoff(attempt: number) {
+    return (
+      Math.random() * Math.min(BASE_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY)
+    );
+  }
+
+  private untilReset(token: string) {
+    const bucket = this.buckets.get(token);
+    const wait = bucket ? bucket.resetAt - Date.now() : 0;
+
+    return Math.min(Math.max(wait, 0), MAX_RETRY_DELAY) + this.backoff(0);
+  }
+
+  private async waitForBucket(token: string) {
+    const bucket = this.buckets.get(token);
+    if (!bucket || bucket.remaining > 0) return;
+
+    if (bucket.resetAt > Date.now()) {
+      await sleep(this.untilReset(token));
+    }
+    this.buckets.delete(token);
+  }
+
+  private updateBucket(token: string, response: Response) {
+    const remaining = response.headers.get('Ratelimit-Remaining');
+    const reset = response.headers.get('Ratelimit-Reset');
+    if (remaining === null || reset === null) return;
+
+    // Drop buckets that have already refilled so old tokens don't pile up
+    if (this.buckets.size > MAX_TRACKED_BUCKETS) {
+      const now = Date.now();
+      for (const [key, bucket] of this.buckets) {
+        if (bucket.resetAt <= now) this.buckets.delete(key);
+      }
+    }
+
+    this.buckets.set(token, {
+      remaining: Number(remaining),
+      resetAt: Number(reset) * 1000,
+    });
+  }
+}
+
+export const helix = new HelixClient(process.env.TWITCH_CLIENT_ID!);
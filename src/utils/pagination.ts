@@ -0,0 +1,88 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { BadRequestError } from '../interfaces/errors';
+
+interface CursorPayload {
+  // What the cursor pages through, e.g. a search query or a user's follows
+  scope: string;
+  // Twitch's own pagination cursor
+  after: string;
+}
+
+// Falls back to better-auth's secret, which every deployment already sets
+const CURSOR_SECRET =
+  process.env.CURSOR_SECRET || process.env.BETTER_AUTH_SECRET;
+
+if (!CURSOR_SECRET) {
+  throw new Error(
+    'CURSOR_SECRET or BETTER_AUTH_SECRET must be set to sign pagination cursors',
+  );
+}
+
+function sign(data: string) {
+  return createHmac('sha256', CURSOR_SECRET!).update(data).digest('base64url');
+}
+
+/**
+ * Wraps a Helix pagination cursor into an opaque cursor for clients. It is
+ * signed and tied to `scope`, so it can't be edited or reused for another
+ * listing.
+ */
+export function encodeCursor(scope: string, after: string | undefined) {
+  if (!after) return null;
+
+  const payload: CursorPayload = { scope, after };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Returns the Helix cursor inside a client cursor, throwing a BadRequestError
+ * if it was tampered with or issued for a different scope.
+ */
+export function decodeCursor(scope: string, cursor: string | undefined) {
+  if (!cursor) return undefined;
+
+  const [data, signature] = cursor.split('.');
+  if (!data || !signature) {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  const expected = Buffer.from(sign(data));
+  const received = Buffer.from(signature);
+
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  const payload = JSON.parse(
+    Buffer.from(data, 'base64url').toString(),
+  ) as CursorPayload;
+
+  if (payload.scope !== scope) {
+    throw new BadRequestError('Cursor belongs to a different listing');
+  }
+
+  return payload.after;
+}
+
+// Helix pages hold at most 100 items
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parses a `first` query parameter, throwing a BadRequestError if it isn't a
+ * page size Helix accepts.
+ */
+export function parsePageSize(value: string | undefined, fallback: number) {
+  if (value === undefined) return fallback;
+
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+    throw new BadRequestError(`first must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return size;
+}
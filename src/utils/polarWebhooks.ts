@@ -0,0 +1,148 @@
+import type { validateEvent } from '@polar-sh/sdk/webhooks';
+import type { Order } from '@polar-sh/sdk/models/components/order.js';
+import type { Subscription } from '@polar-sh/sdk/models/components/subscription.js';
+import type { Prisma } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import prisma from '../prismaClient';
+import { invalidateEntitlements } from './entitlements';
+
+type PolarWebhookEvent = ReturnType<typeof validateEvent>;
+
+type TransactionClient = Prisma.TransactionClient;
+
+// Polar customers outlive the users they were created for, so events
+// can reference a user that no longer exists
+async function isKnownUser(tx: TransactionClient, userId: string) {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { id: true },
+  });
+
+  return !!user;
+}
+
+async function saveSubscription(tx: TransactionClient, data: Subscription) {
+  const userId = data.customer.externalId;
+  if (!userId || !(await isKnownUser(tx, userId))) return null;
+
+  const modifiedAt = data.modifiedAt ?? data.createdAt;
+  const existing = await tx.polarSubscription.findUnique({
+    where: { id: data.id },
+    select: { polarModifiedAt: true },
+  });
+
+  // Polar doesn't guarantee delivery order, never go back to older state
+  if (existing && existing.polarModifiedAt > modifiedAt) return userId;
+
+  const fields = {
+    userId,
+    customerId: data.customerId,
+    productId: data.productId,
+    status: data.status,
+    currentPeriodEnd: data.currentPeriodEnd,
+    cancelAtPeriodEnd: data.cancelAtPeriodEnd,
+    canceledAt: data.canceledAt,
+    endedAt: data.endedAt,
+    polarModifiedAt: modifiedAt,
+  };
+
+  await tx.polarSubscription.upsert({
+    where: { id: data.id },
+    create: { id: data.id, ...fields },
+    update: fields,
+  });
+
+  return userId;
+}
+
+async function saveOrder(tx: TransactionClient, data: Order) {
+  const userId = data.customer.externalId;
+  if (!userId || !(await isKnownUser(tx, userId))) return null;
+
+  const modifiedAt = data.modifiedAt ?? data.createdAt;
+  const existing = await tx.polarOrder.findUnique({
+    where: { id: data.id },
+    select: { polarModifiedAt: true },
+  });
+
+  if (existing && existing.polarModifiedAt > modifiedAt) return userId;
+
+  const fields = {
+    userId,
+    customerId: data.customerId,
+    productId: data.productId,
+    checkoutId: data.checkoutId,
+    subscriptionId: data.subscriptionId,
+    status: data.status,
+    paid: data.paid,
+    refundedAmount: data.refundedAmount,
+    polarModifiedAt: modifiedAt,
+  };
+
+  await tx.polarOrder.upsert({
+    where: { id: data.id },
+    create: { id: data.id, ...fields },
+    update: fields,
+  });
+
+  return userId;
+}
+
+function applyEvent(tx: TransactionClient, event: PolarWebhookEvent) {
+  switch (event.type) {
+    case 'subscription.created':
+    case 'subscription.updated':
+    case 'subscription.active':
+    case 'subscription.canceled':
+    case 'subscription.uncanceled':
+    case 'subscription.revoked':
+      return saveSubscription(tx, event.data);
+    case 'order.created':
+    case 'order.paid':
+    case 'order.updated':
+    case 'order.refunded':
+      return saveOrder(tx, event.data);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Applies a verified Polar webhook event to our copy of the user's
+ * subscriptions and orders.
+ *
+ * Events are recorded by their webhook id in the same transaction, so a
+ * redelivered event is a no-op. Returns false for duplicates.
+ */
+export async function processPolarEvent(
+  eventId: string,
+  event: PolarWebhookEvent,
+) {
+  let userId: string | null;
+
+  try {
+    userId = await prisma.$transaction(async (tx: TransactionClient) => {
+      await tx.polarWebhookEvent.create({
+        data: { id: eventId, type: event.type },
+      });
+
+      return applyEvent(tx, event);
+    });
+  } catch (err) {
+    if (err instanceof PrismaClientKnownRequestError && err.code === 'P2002') {
+      return false;
+    }
+    throw err;
+  }
+
+  if (userId) {
+    await invalidateEntitlements(userId);
+  } else if (
+    event.type.startsWith('subscription.') ||
+    event.type.startsWith('order.')
+  ) {
+    console.error(`Polar event ${eventId} is not for a known user`);
+  }
+
+  return true;
+}
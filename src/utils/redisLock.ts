@@ -0,0 +1,34 @@
+import redisClient from '../redisClient';
+
+// Only deletes the lock if it still holds our token, so a lock that expired
+// and was taken over by another instance is never released by us
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Tries to take a lock shared by every server instance.
+ *
+ * Resolves with a release function, or `null` if another holder has the lock.
+ * The lock expires after `ttlMs` in case its holder dies without releasing it.
+ */
+export async function tryAcquireLock(key: string, ttlMs: number) {
+  const token = crypto.randomUUID();
+
+  const acquired = await redisClient.set(`lock:${key}`, token, {
+    condition: 'NX',
+    expiration: { type: 'PX', value: ttlMs },
+  });
+
+  if (acquired !== 'OK') return null;
+
+  return async () => {
+    await redisClient.eval(RELEASE_SCRIPT, {
+      keys: [`lock:${key}`],
+      arguments: [token],
+    });
+  };
+}
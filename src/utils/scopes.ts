@@ -0,0 +1,96 @@
+import { BadRequestError } from '../interfaces/errors';
+import type { ScopedFeature, ScopeStatus } from '../interfaces/scopes';
+import prisma from '../prismaClient';
+import { auth, CONSENT_CALLBACK_URLS } from './auth';
+
+// Twitch scopes each feature needs from the user's token
+export const FEATURE_SCOPES: Record<ScopedFeature, string[]> = {
+  followedStreams: ['user:read:follows'],
+  chatRelay: ['user:read:chat'],
+  chatSend: ['user:write:chat'],
+};
+
+export const isScopedFeature = (value: unknown): value is ScopedFeature =>
+  typeof value === 'string' && Object.keys(FEATURE_SCOPES).includes(value);
+
+/**
+ * Returns the scopes the user granted when they last authorized with Twitch.
+ */
+export async function getGrantedScopes(userId: string) {
+  const account = await prisma.account.findFirst({
+    where: { userId, providerId: 'twitch' },
+    select: { scope: true },
+  });
+
+  // better-auth stores them comma separated
+  return (account?.scope ?? '')
+    .split(/[\s,]+/)
+    .filter((scope: string) => scope);
+}
+
+export function missingScopes(feature: ScopedFeature, granted: string[]) {
+  return FEATURE_SCOPES[feature].filter((scope) => !granted.includes(scope));
+}
+
+/**
+ * Reports the scopes the user has granted and what each feature is missing.
+ */
+export async function getScopeStatus(userId: string): Promise<ScopeStatus> {
+  const granted = await getGrantedScopes(userId);
+
+  const features = Object.fromEntries(
+    Object.entries(FEATURE_SCOPES).map(([feature, required]) => [
+      feature,
+      {
+        required,
+        missing: missingScopes(feature as ScopedFeature, granted),
+      },
+    ]),
+  ) as ScopeStatus['features'];
+
+  return { granted, features };
+}
+
+/**
+ * Starts a Twitch authorization that adds the scopes the features are
+ * missing to the user's account, and returns the URL to send the user to.
+ */
+export async function startScopeConsent({
+  userId,
+  headers,
+  features,
+  callbackURL,
+}: {
+  userId: string;
+  // The request's headers, so better-auth can find the session
+  headers: Headers;
+  features: ScopedFeature[];
+  callbackURL: string;
+}) {
+  if (!CONSENT_CALLBACK_URLS.includes(callbackURL)) {
+    throw new BadRequestError(
+      `callbackURL must be one of ${CONSENT_CALLBACK_URLS.join(', ')}`,
+    );
+  }
+
+  const granted = await getGrantedScopes(userId);
+  const missing = [
+    ...new Set(features.flatMap((feature) => missingScopes(feature, granted))),
+  ];
+
+  if (missing.length === 0) return { url: null, missing };
+
+  // Twitch tokens only carry the scopes of the latest authorization, so the
+  // ones already granted are requested again. Twitch only prompts for the
+  // new ones.
+  const { url } = await auth.api.linkSocialAccount({
+    headers,
+    body: {
+      provider: 'twitch',
+      scopes: [...granted, ...missing],
+      callbackURL,
+    },
+  });
+
+  return { url, missing };
+}
@@ -0,0 +1,121 @@
+import type { DeviceSession } from '../interfaces/session';
+import prisma from '../prismaClient';
+import redisClient from '../redisClient';
+
+// Sessions are touched at most this often, not on every request
+const LAST_SEEN_INTERVAL = 5 * 60 * 1000; // 5 minutes in milliseconds
+// As long as better-auth keeps the OAuth state
+const OAUTH_PLATFORM_TTL = 10 * 60; // 10 minutes in seconds
+const MAX_PLATFORM_LENGTH = 32;
+
+interface StoredSession {
+  id: string;
+  platform: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  lastSeenAt: Date | null;
+}
+
+export function normalizePlatform(header: string | null | undefined) {
+  const platform = header?.trim().toLowerCase().slice(0, MAX_PLATFORM_LENGTH);
+  return platform || null;
+}
+
+/**
+ * Remembers the platform that started an OAuth sign in, since the provider's
+ * callback that creates the session comes from the browser without it.
+ */
+export async function rememberOAuthPlatform(
+  state: string,
+  platform: string | null,
+) {
+  if (!platform) return;
+
+  await redisClient.set(`oauth-platform:${state}`, platform, {
+    expiration: { type: 'EX', value: OAUTH_PLATFORM_TTL },
+  });
+}
+
+export function getOAuthPlatform(state: string) {
+  return redisClient.get(`oauth-platform:${state}`);
+}
+
+/**
+ * Lists the user's signed in sessions, most recently used first.
+ */
+export async function listSessions(
+  userId: string,
+  currentSessionId: string,
+): Promise<DeviceSession[]> {
+  const sessions: StoredSession[] = await prisma.session.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      platform: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      updatedAt: true,
+      lastSeenAt: true,
+    },
+  });
+
+  return sessions
+    .map((session) => ({
+      id: session.id,
+      platform: session.platform,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt.toISOString(),
+      // Sessions from before last seen was tracked
+      lastSeenAt: (session.lastSeenAt ?? session.updatedAt).toISOString(),
+      current: session.id === currentSessionId,
+    }))
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+/**
+ * Signs the user's session out, returns false if they have no such session.
+ */
+export async function revokeSession(userId: string, sessionId: string) {
+  const { count } = await prisma.session.deleteMany({
+    where: { id: sessionId, userId },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Signs out every session of the user but the current one and returns how
+ * many there were.
+ */
+export async function revokeOtherSessions(
+  userId: string,
+  currentSessionId: string,
+) {
+  const { count } = await prisma.session.deleteMany({
+    where: { userId, id: { not: currentSessionId } },
+  });
+
+  return count;
+}
+
+/**
+ * Records that the session was just used, if it wasn't recently.
+ */
+export async function touchSession(session: {
+  id: string;
+  lastSeenAt?: Date | null;
+}) {
+  const lastSeen = session.lastSeenAt ? new Date(session.lastSeenAt) : null;
+  if (lastSeen && Date.now() - lastSeen.getTime() < LAST_SEEN_INTERVAL) {
+    return;
+  }
+
+  await prisma.session.updateMany({
+    where: { id: session.id },
+    data: { lastSeenAt: new Date() },
+  });
+}
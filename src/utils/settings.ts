@@ -0,0 +1,257 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { BadRequestError, SettingsConflictError } from '../interfaces/errors';
+import type { OverlaySettings } from '../interfaces/settings';
+import prisma from '../prismaClient';
+
+export const CURRENT_SETTINGS_VERSION = 2;
+
+export const DEFAULT_SETTINGS: OverlaySettings = {
+  version: 2,
+  theme: 'system',
+  opacity: 0.9,
+  scale: 1,
+  position: {
+    anchor: 'top-right',
+    offsetX: 16,
+    offsetY: 16,
+  },
+  streams: {
+    showViewerCount: true,
+    showGame: true,
+    maxVisible: 10,
+  },
+  chat: {
+    enabled: false,
+    fontSize: 14,
+    showBadges: true,
+    showEmotes: true,
+  },
+};
+
+type Document = Record<string, unknown>;
+
+// Throws a BadRequestError naming the offending field
+type Rule = (value: unknown, path: string) => void;
+
+const isDocument = (value: unknown): value is Document =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const boolean: Rule = (value, path) => {
+  if (typeof value !== 'boolean') {
+    throw new BadRequestError(`${path} must be a boolean`);
+  }
+};
+
+const number =
+  (min: number, max: number, { integer = false } = {}): Rule =>
+  (value, path) => {
+    if (
+      typeof value !== 'number' ||
+      !Number.isFinite(value) ||
+      (integer && !Number.isInteger(value)) ||
+      value < min ||
+      value > max
+    ) {
+      throw new BadRequestError(
+        `${path} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`,
+      );
+    }
+  };
+
+const oneOf =
+  (...options: unknown[]): Rule =>
+  (value, path) => {
+    if (!options.includes(value)) {
+      throw new BadRequestError(`${path} must be one of ${options.join(', ')}`);
+    }
+  };
+
+// Unknown keys are rejected so typos don't silently sync to other devices
+const object =
+  (shape: Record<string, Rule>): Rule =>
+  (value, path) => {
+    if (!isDocument(value)) {
+      throw new BadRequestError(`${path} must be an object`);
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!(key in shape)) {
+        throw new BadRequestError(`${path}.${key} is not a known setting`);
+      }
+    }
+
+    for (const [key, rule] of Object.entries(shape)) {
+      rule(value[key], `${path}.${key}`);
+    }
+  };
+
+const commonFields = {
+  theme: oneOf('dark', 'light', 'system'),
+  opacity: number(0.1, 1),
+  scale: number(0.5, 2),
+  position: object({
+    anchor: oneOf('top-left', 'top-right', 'bottom-left', 'bottom-right'),
+    offsetX: number(-10000, 10000, { integer: true }),
+    offsetY: number(-10000, 10000, { integer: true }),
+  }),
+  streams: object({
+    showViewerCount: boolean,
+    showGame: boolean,
+    maxVisible: number(1, 50, { integer: true }),
+  }),
+};
+
+// Schema of every settings version clients may still send
+const schemas: Record<number, Rule> = {
+  1: object({
+    version: oneOf(1),
+    ...commonFields,
+    showChat: boolean,
+    chatFontSize: number(8, 48, { integer: true }),
+  }),
+  2: object({
+    version: oneOf(2),
+    ...commonFields,
+    chat: object({
+      enabled: boolean,
+      fontSize: number(8, 48, { integer: true }),
+      showBadges: boolean,
+      showEmotes: boolean,
+    }),
+  }),
+};
+
+// Upgrades a valid document of the keyed version to the next version
+const migrations: Record<number, (settings: Document) => Document> = {
+  // Chat options moved into their own group when badges and emotes shipped
+  1: ({ showChat, chatFontSize, ...settings }) => ({
+    ...settings,
+    version: 2,
+    chat: {
+      enabled: showChat,
+      fontSize: chatFontSize,
+      showBadges: true,
+      showEmotes: true,
+    },
+  }),
+};
+
+function migrate(settings: Document, fromVersion: number) {
+  let migrated = settings;
+
+  for (
+    let version = fromVersion;
+    version < CURRENT_SETTINGS_VERSION;
+    version++
+  ) {
+    migrated = migrations[version]!(migrated);
+  }
+
+  return migrated as unknown as OverlaySettings;
+}
+
+/**
+ * Validates a settings document sent by a client and upgrades it to the
+ * current version.
+ */
+export function parseSettings(input: unknown): OverlaySettings {
+  if (!isDocument(input)) {
+    throw new BadRequestError('settings must be an object');
+  }
+
+  const version = input.version;
+  const schema = typeof version === 'number' ? schemas[version] : undefined;
+
+  if (!schema) {
+    throw new BadRequestError(
+      `settings.version must be between 1 and ${CURRENT_SETTINGS_VERSION}`,
+    );
+  }
+
+  schema(input, 'settings');
+
+  return migrate(input, version as number);
+}
+
+export const toETag = (revision: number) => `"${revision}"`;
+
+/**
+ * Reads the revision out of an If-Match header, or returns null if it isn't
+ * one of our ETags.
+ */
+export function parseETag(header: string) {
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Returns the user's settings and their revision. Users who never saved any
+ * get the defaults at revision 0.
+ */
+export async function getSettings(userId: string) {
+  const stored = await prisma.overlaySettings.findUnique({
+    where: { userId },
+  });
+
+  if (!stored) {
+    return { settings: DEFAULT_SETTINGS, revision: 0 };
+  }
+
+  return {
+    settings: migrate(stored.data as Document, stored.schemaVersion),
+    revision: stored.revision,
+  };
+}
+
+/**
+ * Replaces the user's settings if they are still at `expectedRevision`,
+ * otherwise another device saved first and a SettingsConflictError is thrown.
+ */
+export async function saveSettings(
+  userId: string,
+  input: unknown,
+  expectedRevision: number,
+) {
+  const settings = parseSettings(input);
+  // Spread into a plain object type so it passes as a Prisma JSON value
+  const data = { ...settings };
+  const revision = expectedRevision + 1;
+
+  if (expectedRevision === 0) {
+    try {
+      await prisma.overlaySettings.create({
+        data: {
+          userId,
+          schemaVersion: CURRENT_SETTINGS_VERSION,
+          revision,
+          data,
+        },
+      });
+    } catch (err) {
+      if (
+        err instanceof PrismaClientKnownRequestError &&
+        err.code === 'P2002'
+      ) {
+        throw new SettingsConflictError();
+      }
+      throw err;
+    }
+
+    return { settings, revision };
+  }
+
+  const { count } = await prisma.overlaySettings.updateMany({
+    where: { userId, revision: expectedRevision },
+    data: {
+      schemaVersion: CURRENT_SETTINGS_VERSION,
+      revision,
+      data,
+    },
+  });
+
+  if (count === 0) {
+    throw new SettingsConflictError();
+  }
+
+  return { settings, revision };
+}
@@ -0,0 +1,252 @@
+import { TwitchApiError } from '../interfaces/errors';
+import prisma from '../prismaClient';
+import { getAppToken } from './appToken';
+import { tryAcquireLock } from './redisLock';
+import {
+  deleteEventSubSubscription,
+  fetchEventSubSubscriptions,
+  fetchFollowedChannelIds,
+  subscribeToStreamEvents,
+  type EventSubSubscriptionData,
+} from './twitchApi';
+import { withUserToken } from './userTokens';
+
+const STREAM_EVENT_TYPES = ['stream.online', 'stream.offline'] as const;
+const SYNC_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours in milliseconds
+const SYNC_LOCK_TTL = 30 * 60 * 1000; // 30 minutes in milliseconds
+// A sync stops early and leaves the rest for the next one well before its
+// lock expires, so two instances never sync at once
+const SYNC_TIME_LIMIT = 20 * 60 * 1000; // 20 minutes in milliseconds
+// Only follows of users who used the app lately are watched, the rest would
+// only cost us token refreshes and subscriptions
+const ACTIVE_USER_WINDOW = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+// Every channel costs two subscriptions against EventSub's max_total_cost
+// of 10000, leave room for the chat relay's
+const MAX_WATCHED_CHANNELS = 4500;
+// Subscriptions that will never deliver again and only count against our limit
+const DEAD_STATUSES = [
+  'webhook_callback_verification_failed',
+  'notification_failures_exceeded',
+  'authorization_revoked',
+  'moderator_removed',
+  'user_removed',
+  'version_removed',
+];
+
+type StreamEventType = (typeof STREAM_EVENT_TYPES)[number];
+
+/**
+ * Returns the EventSub webhook callback and secret, or null when go-live
+ * notifications aren't configured.
+ */
+export function webhookConfig() {
+  const callback = process.env.TWITCH_EVENTSUB_CALLBACK_URL;
+  const secret = process.env.TWITCH_EVENTSUB_SECRET;
+
+  return callback && secret ? { callback, secret } : null;
+}
+
+const subscriptionKey = (type: string, broadcasterId: string) =>
+  `${type}:${broadcasterId}`;
+
+/**
+ * Returns every channel some user has pinned, plus the channels recently
+ * active users follow, up to MAX_WATCHED_CHANNELS. `complete` is false if
+ * some user's follows couldn't be fetched before `deadline`, the channels
+ * only they follow are missing then.
+ */
+export async function getWatchedChannelIds({ deadline }: { deadline: number }) {
+  const [favorites, accounts] = await Promise.all([
+    prisma.favoriteChannel.findMany({
+      distinct: ['channelId'],
+      select: { channelId: true },
+    }),
+    prisma.account.findMany({
+      where: {
+        providerId: 'twitch',
+        refreshToken: { not: null },
+        user: {
+          sessions: {
+            some: {
+              lastSeenAt: { gte: new Date(Date.now() - ACTIVE_USER_WINDOW) },
+            },
+          },
+        },
+      },
+      select: { userId: true },
+    }),
+  ]);
+
+  const channelIds = new Set<string>(
+    favorites.map((favorite: { channelId: string }) => favorite.channelId),
+  );
+
+  let complete = true;
+
+  // One user at a time, this runs in the background and shouldn't starve
+  // requests of Helix rate limit
+  for (const { userId } of accounts as { userId: string }[]) {
+    if (channelIds.size >= MAX_WATCHED_CHANNELS) {
+      console.warn(
+        `Watching the maximum of ${MAX_WATCHED_CHANNELS} channels, skipping remaining follows`,
+      );
+      break;
+    }
+
+    if (Date.now() > deadline) {
+      complete = false;
+      break;
+    }
+
+    try {
+      const followed = await withUserToken(userId, (token) =>
+        fetchFollowedChannelIds({
+          accountId: token.accountId,
+          userAccessToken: token.accessToken,
+        }),
+      );
+      for (const channelId of followed) {
+        if (channelIds.size >= MAX_WATCHED_CHANNELS) break;
+        channelIds.add(channelId);
+      }
+    } catch (err) {
+      console.error(`Failed to fetch followed channels of ${userId}`, err);
+      complete = false;
+    }
+  }
+
+  return { channelIds, complete };
+}
+
+async function createSubscription(
+  type: StreamEventType,
+  broadcasterId: string,
+  { callback, secret }: { callback: string; secret: string },
+) {
+  const { access_token } = await getAppToken();
+
+  try {
+    await subscribeToStreamEvents({
+      type,
+      broadcasterId,
+      callback,
+      secret,
+      accessToken: access_token,
+    });
+  } catch (err) {
+    // 409 means the subscription already exists
+    if (err instanceof TwitchApiError && err.upstreamStatus === 409) return;
+    throw err;
+  }
+}
+
+/**
+ * Makes sure Twitch notifies us when the channel goes live or offline.
+ */
+export async function watchChannel(broadcasterId: string) {
+  const config = webhookConfig();
+  if (!config) return;
+
+  await Promise.all(
+    STREAM_EVENT_TYPES.map((type) =>
+      createSubscription(type, broadcasterId, config),
+    ),
+  );
+}
+
+/**
+ * Brings our EventSub webhook subscriptions in line with the channels users
+ * have pinned or follow: missing ones are created, and ones for channels
+ * nobody watches anymore or that Twitch gave up on are deleted. Unwatched
+ * ones are kept in a run where some user's follows couldn't be fetched.
+ *
+ * Only one instance syncs at a time, the others skip.
+ */
+export async function syncStreamSubscriptions() {
+  const config = webhookConfig();
+  if (!config) return;
+
+  const release = await tryAcquireLock(
+    'eventsub-stream-subscriptions-sync',
+    SYNC_LOCK_TTL,
+  );
+  if (!release) return;
+
+  try {
+    const deadline = Date.now() + SYNC_TIME_LIMIT;
+    const { channelIds: watched, complete } = await getWatchedChannelIds({
+      deadline,
+    });
+    const { access_token } = await getAppToken();
+
+    const existing = (
+      await Promise.all(
+        STREAM_EVENT_TYPES.map((type) =>
+          fetchEventSubSubscriptions({ type, accessToken: access_token }),
+        ),
+      )
+    )
+      .flat()
+      .filter(
+        (subscription: EventSubSubscriptionData) =>
+          subscription.transport.method === 'webhook' &&
+          subscription.transport.callback === config.callback,
+      );
+
+    const kept = new Set<string>();
+
+    for (const subscription of existing) {
+      // Creating subscriptions below stops at the deadline too
+      if (Date.now() > deadline) break;
+
+      const broadcasterId = subscription.condition.broadcaster_user_id!;
+
+      const dead = DEAD_STATUSES.includes(subscription.status);
+
+      // Without everyone's follows an unwatched channel may just be one we
+      // failed to fetch, only dead subscriptions are safe to delete then
+      if (!dead && (watched.has(broadcasterId) || !complete)) {
+        kept.add(subscriptionKey(subscription.type, broadcasterId));
+        continue;
+      }
+
+      await deleteEventSubSubscription({
+        subscriptionId: subscription.id,
+        accessToken: access_token,
+      });
+    }
+
+    for (const broadcasterId of watched) {
+      // The next sync creates the rest
+      if (Date.now() > deadline) break;
+
+      for (const type of STREAM_EVENT_TYPES) {
+        if (kept.has(subscriptionKey(type, broadcasterId))) continue;
+
+        await createSubscription(type, broadcasterId, config).catch((err) =>
+          console.error(
+            `Failed to subscribe to ${type} for ${broadcasterId}`,
+            err,
+          ),
+        );
+      }
+    }
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Syncs stream event subscriptions now and every few hours after that.
+ */
+export function startStreamSubscriptionSync() {
+  if (!webhookConfig()) return;
+
+  const sync = () =>
+    syncStreamSubscriptions().catch((err) =>
+      console.error('Failed to sync stream event subscriptions', err),
+    );
+
+  sync();
+  setInterval(sync, SYNC_INTERVAL);
+}
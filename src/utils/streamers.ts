@@ -0,0 +1,342 @@
+import type { Streamer } from '../interfaces/streamer';
+import {
+  fetchChannelsData,
+  fetchFollowedStreams,
+  fetchGameStreams,
+  fetchStreamsData,
+  fetchUsersData,
+  searchChannels,
+  type ChannelData,
+  type StreamData,
+  type UserData,
+} from './twitchApi';
+
+// Sizes stream and video previews are rendered at in the overlay layouts
+export const THUMBNAIL_SIZES = {
+  small: [320, 180],
+  medium: [640, 360],
+  large: [1280, 720],
+} as const;
+
+/**
+ * Fills the `{width}x{height}` placeholders of a Twitch image URL template
+ * once for every size.
+ */
+export function resolveImageSizes<Size extends string>(
+  template: string,
+  sizes: Record<Size, readonly [number, number]>,
+) {
+  const entries = Object.entries(sizes) as [Size, readonly [number, number]][];
+
+  return Object.fromEntries(
+    entries.map(([size, [width, height]]) => [
+      size,
+      template
+        .replace('{width}', String(width))
+        .replace('{height}', String(height)),
+    ]),
+  ) as Record<Size, string>;
+}
+
+function uptimeSince(startedAt: string | null) {
+  return startedAt
+    ? Math.max(0, Math.floor((Date.now() - Date.parse(startedAt)) / 1000))
+    : null;
+}
+
+/**
+ * Works uptime out again for streamers read from a cache, where it froze
+ * when they were built.
+ */
+export function withCurrentUptime<T extends Streamer>(streamers: T[]): T[] {
+  return streamers.map((streamer) => ({
+    ...streamer,
+    uptimeSeconds: uptimeSince(streamer.startedAt),
+  }));
+}
+
+/**
+ * Builds a `Streamer` from a user and either their live stream or, when they
+ * are offline, their channel information.
+ */
+export function buildStreamer(
+  userData: UserData,
+  streamData?: StreamData,
+  channelData?: ChannelData,
+): Streamer {
+  const startedAt = streamData?.started_at ?? null;
+
+  return {
+    channelId: userData.id,
+    displayName: userData.display_name,
+    loginName: userData.login,
+    profileImageUrl: userData.profile_image_url,
+    gameId: streamData?.game_id ?? channelData?.game_id ?? '',
+    gameName: streamData?.game_name ?? channelData?.game_name ?? '',
+    title: streamData?.title ?? channelData?.title ?? '',
+    viewers: streamData?.viewer_count ?? 0,
+    isLive: streamData?.type === 'live',
+    broadcasterType: userData.broadcaster_type,
+    offlineImageUrl: userData.offline_image_url,
+    language: streamData?.language ?? channelData?.broadcaster_language ?? '',
+    tags: streamData?.tags ?? channelData?.tags ?? [],
+    startedAt,
+    uptimeSeconds: uptimeSince(startedAt),
+    thumbnails: streamData
+      ? resolveImageSizes(streamData.thumbnail_url, THUMBNAIL_SIZES)
+      : null,
+    isMature: streamData?.is_mature ?? false,
+  };
+}
+
+// Builds a `Streamer` for every user, looking up channel information for
+// the ones that aren't live. Keyed by user id.
+async function buildStreamers(
+  usersData: UserData[],
+  streamsData: StreamData[],
+  accessToken: string,
+) {
+  const streamsByUserId = new Map(
+    streamsData.map((stream) => [stream.user_id, stream]),
+  );
+  const offlineIds = usersData
+    .map((user) => user.id)
+    .filter((id) => !streamsByUserId.has(id));
+
+  const channelsData = await fetchChannelsData({
+    broadcasterIds: offlineIds,
+    accessToken,
+  });
+
+  const channelsById = new Map(
+    channelsData.map((channel) => [channel.broadcaster_id, channel]),
+  );
+
+  return new Map(
+    usersData.map((user) => [
+      user.id,
+      buildStreamer(
+        user,
+        streamsByUserId.get(user.id),
+        channelsById.get(user.id),
+      ),
+    ]),
+  );
+}
+
+/**
+ * Resolves channels into `Streamer`s, live or offline, with batched Helix
+ * lookups. Results keep the order of `channelIds`; unknown ids are skipped.
+ */
+export async function resolveStreamers({
+  channelIds,
+  accessToken,
+}: {
+  channelIds: string[];
+  accessToken: string;
+}): Promise<Streamer[]> {
+  const [usersData, streamsData] = await Promise.all([
+    fetchUsersData({ ids: channelIds, accessToken }),
+    fetchStreamsData({ userIds: channelIds, accessToken }),
+  ]);
+
+  const streamers = await buildStreamers(usersData, streamsData, accessToken);
+
+  return channelIds.flatMap((id) => {
+    const streamer = streamers.get(id);
+    return streamer ? [streamer] : [];
+  });
+}
+
+/**
+ * Same as `resolveStreamers` but by login. Logins that don't belong to a
+ * channel are returned in `notFound` instead.
+ */
+export async function resolveStreamersByLogin({
+  loginNames,
+  accessToken,
+}: {
+  loginNames: string[];
+  accessToken: string;
+}) {
+  const [usersData, streamsData] = await Promise.all([
+    fetchUsersData({ loginNames, accessToken }),
+    fetchStreamsData({ userLogins: loginNames, accessToken }),
+  ]);
+
+  const streamers = await buildStreamers(usersData, streamsData, accessToken);
+  const idsByLogin = new Map(usersData.map((user) => [user.login, user.id]));
+
+  const found: Streamer[] = [];
+  const notFound: string[] = [];
+
+  for (const login of loginNames) {
+    const streamer = streamers.get(idsByLogin.get(login) ?? '');
+
+    if (streamer) {
+      found.push(streamer);
+    } else {
+      notFound.push(login);
+    }
+  }
+
+  return { streamers: found, notFound };
+}
+
+export interface StreamSearchOptions {
+  includeOffline?: boolean;
+  // Page size, matches before the language and game filters are applied
+  first?: number;
+  // ISO 639-1 code, e.g. 'en'
+  language?: string;
+  gameId?: string;
+  // Helix pagination cursor
+  after?: string;
+}
+
+/**
+ * Searches channels, most viewers first within a page. Only live channels are
+ * returned unless `includeOffline` is set.
+ */
+export async function searchStreamers({
+  searchQuery,
+  accessToken,
+  includeOffline = false,
+  first,
+  language,
+  gameId,
+  after,
+}: StreamSearchOptions & {
+  searchQuery: string;
+  accessToken: string;
+}) {
+  const { data: searchData, cursor } = await searchChannels({
+    searchQuery,
+    liveOnly: !includeOffline,
+    first,
+    after,
+    accessToken,
+  });
+
+  // Helix search can't filter by these itself
+  const matches = searchData.filter(
+    (channel) =>
+      (!language || channel.broadcaster_language === language) &&
+      (!gameId || channel.game_id === gameId),
+  );
+
+  const streamers = await resolveStreamers({
+    channelIds: matches.map((channel) => channel.id),
+    accessToken,
+  });
+
+  return {
+    streamers: streamers.sort((a, b) => b.viewers - a.viewers),
+    cursor,
+  };
+}
+
+/**
+ * Returns a page of the live streams in a category, most viewers first.
+ */
+export async function getGameStreamers({
+  gameId,
+  language,
+  first,
+  after,
+  accessToken,
+}: {
+  gameId: string;
+  language?: string;
+  first?: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const { data: streamsData, cursor } = await fetchGameStreams({
+    gameId,
+    language,
+    first,
+    after,
+    accessToken,
+  });
+
+  const usersData = await fetchUsersData({
+    ids: streamsData.map((stream) => stream.user_id),
+    accessToken,
+  });
+  const usersById = new Map(usersData.map((user) => [user.id, user]));
+
+  const streamers = streamsData.flatMap((stream) => {
+    const userData = usersById.get(stream.user_id);
+    return userData ? [buildStreamer(userData, stream)] : [];
+  });
+
+  return {
+    streamers: streamers.sort((a, b) => b.viewers - a.viewers),
+    cursor,
+  };
+}
+
+/**
+ * Returns a page of the live streams of the channels the user follows.
+ */
+export async function getFollowedStreamers({
+  accountId,
+  userAccessToken,
+  first,
+  after,
+}: {
+  accountId: string;
+  userAccessToken: string;
+  first?: number;
+  after?: string;
+}) {
+  const { data: streamsData, cursor } = await fetchFollowedStreams({
+    accountId,
+    userAccessToken,
+    first,
+    after,
+  });
+
+  const usersData = await fetchUsersData({
+    ids: streamsData.map((stream) => stream.user_id),
+    accessToken: userAccessToken,
+  });
+  const usersById = new Map(usersData.map((user) => [user.id, user]));
+
+  // Keeps Twitch's order, most viewers first
+  const streamers = streamsData.flatMap((stream) => {
+    const userData = usersById.get(stream.user_id);
+    return userData ? [buildStreamer(userData, stream)] : [];
+  });
+
+  return { streamers, cursor };
+}
+
+/**
+ * Returns every live stream of the channels the user follows, reading all
+ * pages.
+ */
+export async function getAllFollowedStreamers({
+  accountId,
+  userAccessToken,
+}: {
+  accountId: string;
+  userAccessToken: string;
+}) {
+  const streamers: Streamer[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await getFollowedStreamers({
+      accountId,
+      userAccessToken,
+      after: cursor,
+    });
+
+    streamers.push(...page.streamers);
+    cursor = page.cursor;
+  } while (cursor);
+
+  return streamers;
+}
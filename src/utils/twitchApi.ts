@@ -1,8 +1,8 @@
-import type { Streamer } from '../interfaces/streamer';
-import prisma from '../prismaClient';
 import { HTTPException } from 'hono/http-exception';
+import { TwitchApiError } from '../interfaces/errors';
+import { helix } from './helixClient';
 
-interface UserData {
+export interface UserData {
   id: string;
   login: string;
   display_name: string;
@@ -15,7 +15,7 @@ interface UserData {
   created_at: string;
 }
 
-interface StreamData {
+export interface StreamData {
   id: string;
   user_id: string;
   user_login: string;
@@ -32,7 +32,7 @@ interface StreamData {
   is_mature: boolean;
 }
 
-interface ChannelData {
+export interface ChannelData {
   broadcaster_id: string;
   broadcaster_login: string;
   broadcaster_name: string;
@@ -46,7 +46,9 @@ interface ChannelData {
   is_branded_content: boolean;
 }
 
-interface SearchData {
+// Search results only carry channel information, `thumbnail_url` is the
+// profile image
+export interface SearchData {
   broadcaster_language: string;
   broadcaster_login: string;
   display_name: string;
@@ -66,19 +68,114 @@ interface TwitchTokenResponse {
   expires_in: number;
 }
 
-// interface BadgeData {
-//   set_id: string;
-//   versions: {
-//     id: string;
-//     image_url_1x: string;
-//     image_url_2x: string;
-//     image_url_4x: string;
-//     title: string;
-//     description: string;
-//     click_action: string;
-//     click_url: string;
-//   }[];
-// }
+export interface EventSubSubscriptionData {
+  id: string;
+  status: string;
+  type: string;
+  version: string;
+  condition: Record<string, string>;
+  transport: {
+    method: 'webhook' | 'websocket' | 'conduit';
+    callback?: string;
+    session_id?: string;
+  };
+  created_at: string;
+  cost: number;
+}
+
+export interface BadgeData {
+  set_id: string;
+  versions: {
+    id: string;
+    image_url_1x: string;
+    image_url_2x: string;
+    image_url_4x: string;
+    title: string;
+    description: string;
+    click_action: string | null;
+    click_url: string | null;
+  }[];
+}
+
+export interface EmoteData {
+  id: string;
+  name: string;
+  images: {
+    url_1x: string;
+    url_2x: string;
+    url_4x: string;
+  };
+  format: ('static' | 'animated')[];
+  scale: ('1.0' | '2.0' | '3.0')[];
+  theme_mode: ('light' | 'dark')[];
+  emote_type?: string;
+  emote_set_id?: string;
+  tier?: string;
+}
+
+interface EmotesResponse {
+  data: EmoteData[];
+  template: string;
+}
+
+export interface ClipData {
+  id: string;
+  url: string;
+  embed_url: string;
+  broadcaster_id: string;
+  broadcaster_name: string;
+  creator_id: string;
+  creator_name: string;
+  video_id: string;
+  game_id: string;
+  language: string;
+  title: string;
+  view_count: number;
+  created_at: string;
+  thumbnail_url: string;
+  // In seconds, with a fraction
+  duration: number;
+  vod_offset: number | null;
+  is_featured: boolean;
+}
+
+export interface VideoData {
+  id: string;
+  stream_id: string | null;
+  user_id: string;
+  user_login: string;
+  user_name: string;
+  title: string;
+  description: string;
+  created_at: string;
+  published_at: string;
+  url: string;
+  // Uses `%{width}x%{height}` placeholders, empty while processing
+  thumbnail_url: string;
+  viewable: string;
+  view_count: number;
+  language: string;
+  type: 'archive' | 'highlight' | 'upload';
+  // e.g. 3h8m33s
+  duration: string;
+}
+
+export interface GameData {
+  id: string;
+  name: string;
+  box_art_url: string;
+  igdb_id?: string;
+}
+
+// Helix list endpoints wrap their results in `data`
+interface HelixListResponse<T> {
+  data: T[];
+}
+
+// Pass `cursor` as `after` to get the next page, it's missing on the last one
+interface HelixPaginatedResponse<T> extends HelixListResponse<T> {
+  pagination: { cursor?: string };
+}
 
 export async function fetchUserData({
   loginName,
@@ -87,25 +184,10 @@ export async function fetchUserData({
   loginName: string;
   accessToken: string;
 }) {
-  const response = await fetch(
-    `https://api.twitch.tv/helix/users?login=${loginName}`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Client-ID': process.env.TWITCH_CLIENT_ID!,
-      },
-    },
-  );
-
-  if (!response.ok) {
-    throw new HTTPException(500, {
-      message: `Failed to fetch User Data for ${loginName}`,
-    });
-  }
-
-  const { data } = (await response.json()) as {
-    data: UserData[];
-  };
+  const { data } = await helix.get<HelixListResponse<UserData>>('/users', {
+    accessToken,
+    query: { login: loginName },
+  });
 
   return data[0];
 }
@@ -117,77 +199,131 @@ export async function fetchStreamData({
   userId: string;
   accessToken: string;
 }) {
-  const response = await fetch(
-    `https://api.twitch.tv/helix/streams?user_id=${userId}`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Client-ID': process.env.TWITCH_CLIENT_ID!,
-      },
-    },
-  );
+  const { data } = await helix.get<HelixListResponse<StreamData>>('/streams', {
+    accessToken,
+    query: { user_id: userId },
+  });
 
-  if (!response.ok) {
-    throw new HTTPException(500, {
-      message: `Failed to fetch Stream Data for ${userId}`,
-    });
-  }
+  return data[0];
+}
 
-  const { data } = (await response.json()) as {
-    data: StreamData[];
-  };
+// Helix accepts up to 100 ids or logins per request
+const HELIX_BATCH_SIZE = 100;
 
-  return data[0];
+function chunk<T>(items: T[], size = HELIX_BATCH_SIZE) {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+
+  return chunks;
 }
 
-export async function searchStreams({
-  searchQuery,
+export async function fetchUsersData({
+  ids = [],
+  loginNames = [],
   accessToken,
 }: {
-  searchQuery: string;
+  ids?: string[];
+  loginNames?: string[];
   accessToken: string;
-}): Promise<Streamer[]> {
-  const searchResponse = await fetch(
-    `https://api.twitch.tv/helix/search/channels?live_only=true&first=10&query=${searchQuery}`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Client-ID': process.env.TWITCH_CLIENT_ID!,
-      },
-    },
+}) {
+  const queries = [
+    ...chunk(ids).map((batch) => ({ id: batch })),
+    ...chunk(loginNames).map((batch) => ({ login: batch })),
+  ];
+
+  const batches = await Promise.all(
+    queries.map(async (query) => {
+      const { data } = await helix.get<HelixListResponse<UserData>>('/users', {
+        accessToken,
+        query,
+      });
+
+      return data;
+    }),
   );
 
-  if (!searchResponse.ok) {
-    throw new HTTPException(500, {
-      message: 'Failed to fetch Streams',
-    });
-  }
+  return batches.flat();
+}
 
-  const { data: searchData } = (await searchResponse.json()) as {
-    data: SearchData[];
-  };
+export async function fetchStreamsData({
+  userIds = [],
+  userLogins = [],
+  accessToken,
+}: {
+  userIds?: string[];
+  userLogins?: string[];
+  accessToken: string;
+}) {
+  const queries = [
+    ...chunk(userIds).map((batch) => ({ user_id: batch })),
+    ...chunk(userLogins).map((batch) => ({ user_login: batch })),
+  ];
+
+  const batches = await Promise.all(
+    queries.map(async (query) => {
+      const { data } = await helix.get<HelixListResponse<StreamData>>(
+        '/streams',
+        {
+          accessToken,
+          query: { ...query, first: HELIX_BATCH_SIZE },
+        },
+      );
 
-  const streamers: Streamer[] = await Promise.all(
-    searchData.map(async (stream) => {
-      const streamData = await fetchStreamData({
-        userId: stream.id,
-        accessToken,
-      });
+      return data;
+    }),
+  );
+
+  return batches.flat();
+}
 
-      return {
-        channelId: stream.id,
-        loginName: stream.broadcaster_login,
-        displayName: stream.display_name,
-        profileImageUrl: stream.thumbnail_url,
-        gameName: stream.game_name,
-        viewers: streamData?.viewer_count || 0,
-        isLive: stream.is_live,
-        title: streamData?.title || '',
-      };
+export async function fetchChannelsData({
+  broadcasterIds,
+  accessToken,
+}: {
+  broadcasterIds: string[];
+  accessToken: string;
+}) {
+  const batches = await Promise.all(
+    chunk(broadcasterIds).map(async (batch) => {
+      const { data } = await helix.get<HelixListResponse<ChannelData>>(
+        '/channels',
+        {
+          accessToken,
+          query: { broadcaster_id: batch },
+        },
+      );
+
+      return data;
     }),
   );
 
-  return streamers.sort((a, b) => b.viewers - a.viewers);
+  return batches.flat();
+}
+
+export async function searchChannels({
+  searchQuery,
+  liveOnly = true,
+  first = 10,
+  after,
+  accessToken,
+}: {
+  searchQuery: string;
+  liveOnly?: boolean;
+  first?: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const { data, pagination } = await helix.get<
+    HelixPaginatedResponse<SearchData>
+  >('/search/channels', {
+    accessToken,
+    query: { live_only: liveOnly, first, after, query: searchQuery },
+  });
+
+  return { data, cursor: pagination.cursor };
 }
 
 export async function fetchChannelData({
@@ -197,134 +333,168 @@ export async function fetchChannelData({
   userId: string;
   accessToken: string;
 }) {
-  const response = await fetch(
-    `https://api.twitch.tv/helix/channels?broadcaster_id=${userId}`,
+  const { data } = await helix.get<HelixListResponse<ChannelData>>(
+    '/channels',
     {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Client-ID': process.env.TWITCH_CLIENT_ID!,
-      },
+      accessToken,
+      query: { broadcaster_id: userId },
     },
   );
 
-  if (!response.ok) {
-    throw new HTTPException(500, {
-      message: `Failed to fetch Channel Data for ${userId}`,
-    });
-  }
+  return data[0];
+}
 
-  const { data } = (await response.json()) as {
-    data: ChannelData[];
-  };
+export async function fetchGame({
+  gameId,
+  accessToken,
+}: {
+  gameId: string;
+  accessToken: string;
+}) {
+  const { data } = await helix.get<HelixListResponse<GameData>>('/games', {
+    accessToken,
+    query: { id: gameId },
+  });
 
   return data[0];
 }
 
-interface FollowedStreamsData {
-  user_id: string;
-  user_login: string;
-  user_name: string;
-  game_name: string;
-  title: string;
-  type: string;
-  viewer_count: number;
+export async function fetchTopGames({
+  first,
+  after,
+  accessToken,
+}: {
+  first?: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const { data, pagination } = await helix.get<
+    HelixPaginatedResponse<GameData>
+  >('/games/top', {
+    accessToken,
+    query: { first, after },
+  });
+
+  return { data, cursor: pagination.cursor };
 }
 
-export async function fetchFollowedStreams({
-  accountId,
-  userAccessToken,
+export async function searchCategories({
+  searchQuery,
+  first,
+  after,
+  accessToken,
 }: {
-  accountId: string;
-  userAccessToken: string;
+  searchQuery: string;
+  first?: number;
+  after?: string;
+  accessToken: string;
 }) {
-  const response = await fetch(
-    `https://api.twitch.tv/helix/streams/followed?user_id=${accountId}`,
-    {
-      headers: {
-        Authorization: `Bearer ${userAccessToken}`,
-        'Client-ID': process.env.TWITCH_CLIENT_ID!,
-      },
-    },
-  );
-
-  if (!response.ok) {
-    // 401 response indicates invalid access token
-    if (response.status === 401) {
-      const account = await prisma.account.findFirst({
-        where: {
-          accountId: accountId,
-          providerId: 'twitch',
-        },
-        select: {
-          id: true,
-          refreshToken: true,
-        },
-      });
+  const { data, pagination } = await helix.get<
+    HelixPaginatedResponse<GameData>
+  >('/search/categories', {
+    accessToken,
+    query: { query: searchQuery, first, after },
+  });
 
-      if (!account || !account.refreshToken) {
-        throw new HTTPException(500, {
-          message: 'Invalid access token, no refresh token found',
-        });
-      }
+  return { data, cursor: pagination.cursor };
+}
 
-      // try to refresh access token
-      const twitchData = await refreshAccessToken(account.refreshToken);
+export async function fetchGameStreams({
+  gameId,
+  language,
+  first,
+  after,
+  accessToken,
+}: {
+  gameId: string;
+  language?: string;
+  first?: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const { data, pagination } = await helix.get<
+    HelixPaginatedResponse<StreamData>
+  >('/streams', {
+    accessToken,
+    query: { game_id: gameId, language, type: 'live', first, after },
+  });
 
-      if (!twitchData) {
-        throw new HTTPException(500, {
-          message: 'Failed to fetch followed channels, token refresh failed',
-        });
-      }
+  return { data, cursor: pagination.cursor };
+}
 
-      await prisma.account.update({
-        where: {
-          id: account.id,
-        },
-        data: {
-          accessToken: twitchData.access_token,
-          refreshToken: twitchData.refresh_token,
-          accessTokenExpiresAt: new Date(
-            Date.now() + twitchData.expires_in * 1000,
-          ),
-        },
-      });
+export async function fetchClips({
+  broadcasterId,
+  startedAt,
+  endedAt,
+  first,
+  after,
+  accessToken,
+}: {
+  broadcasterId: string;
+  startedAt?: string;
+  endedAt?: string;
+  first?: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const { data, pagination } = await helix.get<
+    HelixPaginatedResponse<ClipData>
+  >('/clips', {
+    accessToken,
+    query: {
+      broadcaster_id: broadcasterId,
+      started_at: startedAt,
+      ended_at: endedAt,
+      first,
+      after,
+    },
+  });
 
-      return await fetchFollowedStreams({
-        accountId,
-        userAccessToken: twitchData.access_token,
-      });
-    } else {
-      throw new HTTPException(500, {
-        message: `Failed to fetch Followed Channels for ${accountId}: ${response.status} ${response.statusText}`,
-      });
-    }
-  }
+  return { data, cursor: pagination.cursor };
+}
 
-  const { data: followedStreams } = (await response.json()) as {
-    data: FollowedStreamsData[];
-  };
+export async function fetchVideos({
+  userId,
+  type = 'all',
+  first,
+  after,
+  accessToken,
+}: {
+  userId: string;
+  type?: VideoData['type'] | 'all';
+  first?: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const { data, pagination } = await helix.get<
+    HelixPaginatedResponse<VideoData>
+  >('/videos', {
+    accessToken,
+    query: { user_id: userId, type, sort: 'time', first, after },
+  });
 
-  const followedStreamers: Streamer[] = await Promise.all(
-    followedStreams.map(async (stream) => {
-      const userData = await fetchUserData({
-        loginName: stream.user_login,
-        accessToken: userAccessToken,
-      });
+  return { data, cursor: pagination.cursor };
+}
 
-      return {
-        channelId: stream.user_id,
-        displayName: stream.user_name,
-        loginName: stream.user_login,
-        profileImageUrl: userData.profile_image_url,
-        gameName: stream.game_name,
-        viewers: stream.viewer_count,
-        isLive: true,
-        title: stream.title,
-      };
-    }),
-  );
+export async function fetchFollowedStreams({
+  accountId,
+  userAccessToken,
+  first = HELIX_BATCH_SIZE,
+  after,
+}: {
+  accountId: string;
+  userAccessToken: string;
+  first?: number;
+  after?: string;
+}) {
+  const { data, pagination } = await helix.get<
+    HelixPaginatedResponse<StreamData>
+  >('/streams/followed', {
+    accessToken: userAccessToken,
+    query: { user_id: accountId, first, after },
+  });
 
-  return followedStreamers;
+  return { data, cursor: pagination.cursor };
 }
 
 export async function refreshAccessToken(refreshToken: string) {
@@ -353,110 +523,254 @@ export async function refreshAccessToken(refreshToken: string) {
   return data;
 }
 
-// export async function subscribeToChat({
-//   userId,
-//   broadcasterId,
-//   accessToken,
-//   sessionId,
-// }: {
-//   userId: string;
-//   broadcasterId: string;
-//   accessToken: string;
-//   sessionId: string;
-// }) {
-//   const response = await fetch(
-//     `https://api.twitch.tv/helix/eventsub/subscriptions`,
-//     {
-//       method: 'POST',
-//       headers: {
-//         'Content-Type': 'application/json',
-//         Authorization: `Bearer ${accessToken}`,
-//         'Client-ID': process.env.TWITCH_CLIENT_ID!,
-//       },
-//       body: JSON.stringify({
-//         type: 'channel.chat.message',
-//         version: '1',
-//         condition: {
-//           broadcaster_user_id: broadcasterId,
-//           user_id: userId,
-//         },
-//         transport: {
-//           method: 'websocket',
-//           session_id: sessionId,
-//         },
-//       }),
-//     },
-//   );
-
-//   if (!response.ok) {
-//     console.log('response', await response.json());
-//     throw new HTTPException(500, {
-//       message: `Failed to post EventSub Chat for ${broadcasterId}`,
-//     });
-//   }
-
-//   return await response.json();
-// }
-
-// export async function fetchChannelBadges({
-//   loginName,
-//   accessToken,
-// }: {
-//   loginName: string;
-//   accessToken: string;
-// }) {
-//   const broadcaster = await fetchUserData({
-//     loginName,
-//     accessToken,
-//   });
-
-//   const response = await fetch(
-//     `https://api.twitch.tv/helix/chat/badges?broadcaster_id=${broadcaster.id}`,
-//     {
-//       headers: {
-//         Authorization: `Bearer ${accessToken}`,
-//         'Client-ID': process.env.TWITCH_CLIENT_ID!,
-//       },
-//     },
-//   );
-
-//   if (!response.ok) {
-//     throw new HTTPException(500, {
-//       message: `Failed to fetch Channel Badges for ${broadcaster.login}`,
-//     });
-//   }
-
-//   const { data } = (await response.json()) as {
-//     data: BadgeData[];
-//   };
-
-//   return data;
-// }
-
-// export async function fetchGlobalBadges({
-//   accessToken,
-// }: {
-//   accessToken: string;
-// }) {
-//   const response = await fetch(
-//     `https://api.twitch.tv/helix/chat/badges/global`,
-//     {
-//       headers: {
-//         Authorization: `Bearer ${accessToken}`,
-//         'Client-ID': process.env.TWITCH_CLIENT_ID!,
-//       },
-//     },
-//   );
-
-//   if (!response.ok) {
-//     throw new HTTPException(500, {
-//       message: `Failed to fetch Global Badges`,
-//     });
-//   }
-
-//   const { data } = (await response.json()) as {
-//     data: BadgeData[];
-//   };
-
-//   return data;
-// }
+/**
+ * Revokes a user access token, and with it the user's grant to our app.
+ * Tokens Twitch already considers invalid are ignored.
+ */
+export async function revokeToken(accessToken: string) {
+  const response = await fetch(`https://id.twitch.tv/oauth2/revoke`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: `client_id=${process.env.TWITCH_CLIENT_ID}&token=${encodeURIComponent(accessToken)}`,
+  });
+
+  if (response.ok) return;
+
+  // 400 with "Invalid token" means there's nothing left to revoke, other
+  // 400s (e.g. a client id mismatch) are real failures
+  if (response.status === 400) {
+    const { message } = (await response.json().catch(() => ({}))) as {
+      message?: string;
+    };
+    if (message?.toLowerCase() === 'invalid token') return;
+  }
+
+  throw new HTTPException(500, {
+    message: `Failed to revoke token: ${response.status} ${response.statusText}`,
+  });
+}
+
+export async function subscribeToChat({
+  userId,
+  broadcasterId,
+  accessToken,
+  sessionId,
+}: {
+  userId: string;
+  broadcasterId: string;
+  accessToken: string;
+  sessionId: string;
+}) {
+  const { data } = await helix.post<
+    HelixListResponse<EventSubSubscriptionData>
+  >('/eventsub/subscriptions', {
+    accessToken,
+    body: {
+      type: 'channel.chat.message',
+      version: '1',
+      condition: {
+        broadcaster_user_id: broadcasterId,
+        user_id: userId,
+      },
+      transport: {
+        method: 'websocket',
+        session_id: sessionId,
+      },
+    },
+  });
+
+  return data[0];
+}
+
+export async function deleteEventSubSubscription({
+  subscriptionId,
+  accessToken,
+}: {
+  subscriptionId: string;
+  accessToken: string;
+}) {
+  try {
+    await helix.delete('/eventsub/subscriptions', {
+      accessToken,
+      query: { id: subscriptionId },
+    });
+  } catch (err) {
+    // 404 means Twitch already removed the subscription (e.g. the session closed)
+    if (err instanceof TwitchApiError && err.upstreamStatus === 404) return;
+    throw err;
+  }
+}
+
+export async function subscribeToStreamEvents({
+  type,
+  broadcasterId,
+  callback,
+  secret,
+  accessToken,
+}: {
+  type: 'stream.online' | 'stream.offline';
+  broadcasterId: string;
+  callback: string;
+  secret: string;
+  accessToken: string;
+}) {
+  const { data } = await helix.post<
+    HelixListResponse<EventSubSubscriptionData>
+  >('/eventsub/subscriptions', {
+    accessToken,
+    body: {
+      type,
+      version: '1',
+      condition: {
+        broadcaster_user_id: broadcasterId,
+      },
+      transport: {
+        method: 'webhook',
+        callback,
+        secret,
+      },
+    },
+  });
+
+  return data[0];
+}
+
+export async function fetchEventSubSubscriptions({
+  type,
+  accessToken,
+}: {
+  type: string;
+  accessToken: string;
+}) {
+  const subscriptions: EventSubSubscriptionData[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const { data, pagination } = await helix.get<
+      HelixPaginatedResponse<EventSubSubscriptionData>
+    >('/eventsub/subscriptions', {
+      accessToken,
+      query: { type, after: cursor },
+    });
+
+    subscriptions.push(...data);
+    cursor = pagination.cursor;
+  } while (cursor);
+
+  return subscriptions;
+}
+
+// Every channel the user follows, live or not
+export async function fetchFollowedChannelIds({
+  accountId,
+  userAccessToken,
+}: {
+  accountId: string;
+  userAccessToken: string;
+}) {
+  const channelIds: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const { data, pagination } = await helix.get<
+      HelixPaginatedResponse<{ broadcaster_id: string }>
+    >('/channels/followed', {
+      accessToken: userAccessToken,
+      query: { user_id: accountId, first: HELIX_BATCH_SIZE, after: cursor },
+    });
+
+    channelIds.push(...data.map((channel) => channel.broadcaster_id));
+    cursor = pagination.cursor;
+  } while (cursor);
+
+  return channelIds;
+}
+
+export interface SentChatMessageData {
+  message_id: string;
+  is_sent: boolean;
+  drop_reason: { code: string; message: string } | null;
+}
+
+export async function sendChatMessage({
+  broadcasterId,
+  senderId,
+  message,
+  replyParentMessageId,
+  accessToken,
+}: {
+  broadcasterId: string;
+  senderId: string;
+  message: string;
+  replyParentMessageId?: string;
+  accessToken: string;
+}) {
+  const { data } = await helix.post<HelixListResponse<SentChatMessageData>>(
+    '/chat/messages',
+    {
+      accessToken,
+      body: {
+        broadcaster_id: broadcasterId,
+        sender_id: senderId,
+        message,
+        reply_parent_message_id: replyParentMessageId,
+      },
+    },
+  );
+
+  return data[0]!;
+}
+
+export async function fetchChannelBadges({
+  broadcasterId,
+  accessToken,
+}: {
+  broadcasterId: string;
+  accessToken: string;
+}) {
+  const { data } = await helix.get<HelixListResponse<BadgeData>>(
+    '/chat/badges',
+    {
+      accessToken,
+      query: { broadcaster_id: broadcasterId },
+    },
+  );
+
+  return data;
+}
+
+export async function fetchGlobalBadges({
+  accessToken,
+}: {
+  accessToken: string;
+}) {
+  const { data } = await helix.get<HelixListResponse<BadgeData>>(
+    '/chat/badges/global',
+    { accessToken },
+  );
+
+  return data;
+}
+
+export async function fetchChannelEmotes({
+  broadcasterId,
+  accessToken,
+}: {
+  broadcasterId: string;
+  accessToken: string;
+}) {
+  return helix.get<EmotesResponse>('/chat/emotes', {
+    accessToken,
+    query: { broadcaster_id: broadcasterId },
+  });
+}
+
+export async function fetchGlobalEmotes({
+  accessToken,
+}: {
+  accessToken: string;
+}) {
+  return helix.get<EmotesResponse>('/chat/emotes/global', { accessToken });
+}
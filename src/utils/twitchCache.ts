@@ -0,0 +1,210 @@
+import { cachedWithStale } from './cache';
+import { fetchChannelData, fetchStreamData, fetchUserData } from './twitchApi';
+import { getChannelClips } from './clips';
+import { getGame, getTopGames, searchGames } from './games';
+import {
+  getGameStreamers,
+  searchStreamers,
+  withCurrentUptime,
+  type StreamSearchOptions,
+} from './streamers';
+import { getChannelVideos } from './videos';
+import type { ClipPeriod } from '../interfaces/clip';
+import type { Streamer } from '../interfaces/streamer';
+import type { VideoType } from '../interfaces/video';
+
+// Users change rarely, streams (viewers, titles) change often
+export const HELIX_CACHE_TTL = {
+  users: 60 * 60, // 1 hour in seconds
+  channels: 5 * 60, // 5 minutes in seconds
+  streams: 30, // 30 seconds
+  search: 30, // 30 seconds
+  games: 5 * 60, // 5 minutes in seconds
+  media: 5 * 60, // 5 minutes in seconds
+} as const;
+
+// Cached streamer listings are served with their uptime brought up to date
+async function withStreamerUptime<T extends { streamers: Streamer[] }>(
+  result: Promise<{ value: T; stale: boolean }>,
+) {
+  const { value, stale } = await result;
+
+  return {
+    value: { ...value, streamers: withCurrentUptime(value.streamers) },
+    stale,
+  };
+}
+
+export function getUserData({
+  loginName,
+  accessToken,
+}: {
+  loginName: string;
+  accessToken: string;
+}) {
+  return cachedWithStale(
+    `helix:users:${loginName.toLowerCase()}`,
+    HELIX_CACHE_TTL.users,
+    () => fetchUserData({ loginName, accessToken }),
+  );
+}
+
+export function getStreamData({
+  userId,
+  accessToken,
+}: {
+  userId: string;
+  accessToken: string;
+}) {
+  return cachedWithStale(
+    `helix:streams:${userId}`,
+    HELIX_CACHE_TTL.streams,
+    () => fetchStreamData({ userId, accessToken }),
+  );
+}
+
+export function getChannelData({
+  userId,
+  accessToken,
+}: {
+  userId: string;
+  accessToken: string;
+}) {
+  return cachedWithStale(
+    `helix:channels:${userId}`,
+    HELIX_CACHE_TTL.channels,
+    () => fetchChannelData({ userId, accessToken }),
+  );
+}
+
+export function getSearchStreams({
+  searchQuery,
+  accessToken,
+  ...options
+}: StreamSearchOptions & {
+  searchQuery: string;
+  accessToken: string;
+}) {
+  const key = [
+    searchQuery.toLowerCase(),
+    options.includeOffline ? 'all' : 'live',
+    options.first ?? '',
+    options.language ?? '',
+    options.gameId ?? '',
+    options.after ?? '',
+  ].join(':');
+
+  return withStreamerUptime(
+    cachedWithStale(`helix:search:${key}`, HELIX_CACHE_TTL.search, () =>
+      searchStreamers({ searchQuery, accessToken, ...options }),
+    ),
+  );
+}
+
+export function getGameInfo({
+  gameId,
+  accessToken,
+}: {
+  gameId: string;
+  accessToken: string;
+}) {
+  return cachedWithStale(`helix:game:${gameId}`, HELIX_CACHE_TTL.games, () =>
+    getGame({ gameId, accessToken }),
+  );
+}
+
+export function getTopGamesPage({
+  first,
+  after,
+  accessToken,
+}: {
+  first: number;
+  after?: string;
+  accessToken: string;
+}) {
+  return cachedWithStale(
+    `helix:games:top:${first}:${after ?? ''}`,
+    HELIX_CACHE_TTL.games,
+    () => getTopGames({ first, after, accessToken }),
+  );
+}
+
+export function getGameSearch({
+  searchQuery,
+  first,
+  after,
+  accessToken,
+}: {
+  searchQuery: string;
+  first: number;
+  after?: string;
+  accessToken: string;
+}) {
+  return cachedWithStale(
+    `helix:games:search:${searchQuery.toLowerCase()}:${first}:${after ?? ''}`,
+    HELIX_CACHE_TTL.games,
+    () => searchGames({ searchQuery, first, after, accessToken }),
+  );
+}
+
+export function getGameStreams({
+  gameId,
+  language,
+  first,
+  after,
+  accessToken,
+}: {
+  gameId: string;
+  language?: string;
+  first: number;
+  after?: string;
+  accessToken: string;
+}) {
+  return withStreamerUptime(
+    cachedWithStale(
+      `helix:games:streams:${gameId}:${language ?? ''}:${first}:${after ?? ''}`,
+      HELIX_CACHE_TTL.streams,
+      () => getGameStreamers({ gameId, language, first, after, accessToken }),
+    ),
+  );
+}
+
+export function getChannelClipsPage({
+  broadcasterId,
+  period,
+  first,
+  after,
+  accessToken,
+}: {
+  broadcasterId: string;
+  period: ClipPeriod;
+  first: number;
+  after?: string;
+  accessToken: string;
+}) {
+  return cachedWithStale(
+    `helix:clips:${broadcasterId}:${period}:${first}:${after ?? ''}`,
+    HELIX_CACHE_TTL.media,
+    () => getChannelClips({ broadcasterId, period, first, after, accessToken }),
+  );
+}
+
+export function getChannelVideosPage({
+  userId,
+  type,
+  first,
+  after,
+  accessToken,
+}: {
+  userId: string;
+  type?: VideoType;
+  first: number;
+  after?: string;
+  accessToken: string;
+}) {
+  return cachedWithStale(
+    `helix:videos:${userId}:${type ?? 'all'}:${first}:${after ?? ''}`,
+    HELIX_CACHE_TTL.media,
+    () => getChannelVideos({ userId, type, first, after, accessToken }),
+  );
+}
@@ -0,0 +1,213 @@
+import { HTTPException } from 'hono/http-exception';
+import {
+  NotFoundError,
+  ReauthenticationRequiredError,
+  TwitchAuthError,
+} from '../interfaces/errors';
+import prisma from '../prismaClient';
+import { tryAcquireLock } from './redisLock';
+import { refreshAccessToken } from './twitchApi';
+
+const EXPIRY_BUFFER = 5 * 60 * 1000; // 5 minutes in milliseconds
+const REFRESH_LOCK_TTL = 15 * 1000; // 15 seconds in milliseconds
+const LOCK_POLL_INTERVAL = 250; // milliseconds
+
+export interface UserToken {
+  // The user's Twitch user id
+  accountId: string;
+  accessToken: string;
+}
+
+interface TwitchAccount {
+  id: string;
+  accountId: string;
+  accessToken: string | null;
+  refreshToken: string | null;
+  accessTokenExpiresAt: Date | null;
+}
+
+// Refreshes in flight in this process, keyed by account id
+const refreshing = new Map<string, Promise<UserToken>>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function findTwitchAccount(userId: string): Promise<TwitchAccount | null> {
+  return prisma.account.findFirst({
+    where: {
+      userId,
+      providerId: 'twitch',
+    },
+    select: {
+      id: true,
+      accountId: true,
+      accessToken: true,
+      refreshToken: true,
+      accessTokenExpiresAt: true,
+    },
+  });
+}
+
+function isFresh(account: TwitchAccount) {
+  return (
+    !!account.accessToken &&
+    (!account.accessTokenExpiresAt ||
+      account.accessTokenExpiresAt.getTime() > Date.now() + EXPIRY_BUFFER)
+  );
+}
+
+async function refreshAccount(
+  account: TwitchAccount,
+  force: boolean,
+): Promise<UserToken> {
+  const release = await tryAcquireLock(
+    `twitch-token-refresh:${account.id}`,
+    REFRESH_LOCK_TTL,
+  );
+
+  // Another instance is refreshing, wait for it to store the new token
+  if (!release) {
+    const deadline = Date.now() + REFRESH_LOCK_TTL;
+
+    while (Date.now() < deadline) {
+      await sleep(LOCK_POLL_INTERVAL);
+
+      const latest = await prisma.account.findUnique({
+        where: { id: account.id },
+        select: { accessToken: true, accessTokenExpiresAt: true },
+      });
+
+      if (
+        latest?.accessToken &&
+        latest.accessToken !== account.accessToken &&
+        isFresh({ ...account, ...latest })
+      ) {
+        return {
+          accountId: account.accountId,
+          accessToken: latest.accessToken,
+        };
+      }
+    }
+
+    throw new HTTPException(503, {
+      message: 'Timed out waiting for Twitch token refresh',
+    });
+  }
+
+  try {
+    // The token may have been refreshed between our read and taking the lock
+    const latest = await prisma.account.findUnique({
+      where: { id: account.id },
+      select: {
+        accessToken: true,
+        refreshToken: true,
+        accessTokenExpiresAt: true,
+      },
+    });
+    const current = { ...account, ...latest };
+    const rotated = current.accessToken !== account.accessToken;
+
+    if (isFresh(current) && (!force || rotated)) {
+      return {
+        accountId: account.accountId,
+        accessToken: current.accessToken!,
+      };
+    }
+
+    if (!current.refreshToken) {
+      throw new ReauthenticationRequiredError();
+    }
+
+    let twitchData;
+    try {
+      twitchData = await refreshAccessToken(current.refreshToken);
+    } catch (err) {
+      if (err instanceof HTTPException && err.message === 'INVALID_TOKEN') {
+        // The refresh token is dead, the user has to sign in again
+        await prisma.account.update({
+          where: { id: account.id },
+          data: {
+            accessToken: null,
+            refreshToken: null,
+            accessTokenExpiresAt: null,
+          },
+        });
+        throw new ReauthenticationRequiredError();
+      }
+      throw err;
+    }
+
+    await prisma.account.update({
+      where: { id: account.id },
+      data: {
+        accessToken: twitchData.access_token,
+        refreshToken: twitchData.refresh_token,
+        accessTokenExpiresAt: new Date(
+          Date.now() + twitchData.expires_in * 1000,
+        ),
+      },
+    });
+
+    return {
+      accountId: account.accountId,
+      accessToken: twitchData.access_token,
+    };
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Returns a Twitch access token for the user that is valid for at least a few
+ * more minutes, refreshing it first if needed.
+ *
+ * Only one refresh runs per account at a time across all server instances,
+ * since Twitch rotates the refresh token on every refresh.
+ */
+export async function getValidUserToken(
+  userId: string,
+  { force = false }: { force?: boolean } = {},
+): Promise<UserToken> {
+  const account = await findTwitchAccount(userId);
+
+  if (!account || !account.accountId) {
+    throw new NotFoundError('User Twitch account not found');
+  }
+
+  if (!account.accessToken && !account.refreshToken) {
+    throw new ReauthenticationRequiredError();
+  }
+
+  if (!force && isFresh(account)) {
+    return { accountId: account.accountId, accessToken: account.accessToken! };
+  }
+
+  const pending = refreshing.get(account.id);
+  if (pending) return pending;
+
+  const refresh = refreshAccount(account, force).finally(() =>
+    refreshing.delete(account.id),
+  );
+  refreshing.set(account.id, refresh);
+
+  return refresh;
+}
+
+/**
+ * Runs a user-scoped Twitch call with a valid token. If Twitch still rejects
+ * the token (e.g. it was revoked early), it is refreshed and the call retried
+ * once.
+ */
+export async function withUserToken<T>(
+  userId: string,
+  call: (token: UserToken) => Promise<T>,
+): Promise<T> {
+  const token = await getValidUserToken(userId);
+
+  try {
+    return await call(token);
+  } catch (err) {
+    if (!(err instanceof TwitchAuthError)) throw err;
+
+    return call(await getValidUserToken(userId, { force: true }));
+  }
+}
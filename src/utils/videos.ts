@@ -0,0 +1,61 @@
+import type { Video, VideoType } from '../interfaces/video';
+import { resolveImageSizes, THUMBNAIL_SIZES } from './streamers';
+import { fetchVideos, type VideoData } from './twitchApi';
+
+export const VIDEO_TYPES: VideoType[] = ['archive', 'highlight', 'upload'];
+
+// Parses Twitch's `3h8m33s` durations
+function parseDuration(duration: string) {
+  const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/.exec(duration);
+  if (!match) return 0;
+
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+function buildVideo(videoData: VideoData): Video {
+  // Video thumbnails use `%{width}` instead of the usual `{width}`
+  const template = videoData.thumbnail_url.replace(/%\{/g, '{');
+
+  return {
+    id: videoData.id,
+    type: videoData.type,
+    url: videoData.url,
+    title: videoData.title,
+    description: videoData.description,
+    language: videoData.language,
+    viewCount: videoData.view_count,
+    durationSeconds: parseDuration(videoData.duration),
+    thumbnails: template ? resolveImageSizes(template, THUMBNAIL_SIZES) : null,
+    createdAt: videoData.created_at,
+    publishedAt: videoData.published_at,
+  };
+}
+
+/**
+ * Returns a page of a channel's videos, newest first.
+ */
+export async function getChannelVideos({
+  userId,
+  type,
+  first,
+  after,
+  accessToken,
+}: {
+  userId: string;
+  type?: VideoType;
+  first: number;
+  after?: string;
+  accessToken: string;
+}) {
+  const { data, cursor } = await fetchVideos({
+    userId,
+    type,
+    first,
+    after,
+    accessToken,
+  });
+
+  return { videos: data.map(buildVideo), cursor };
+}